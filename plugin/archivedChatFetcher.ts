@@ -10,7 +10,19 @@
  * 4. Loop: POST to get_live_chat_replay API endpoint until no more continuations
  */
 
-import type { AuthorBadge, BadgeType, ChatMessage, MessageRun, MessageType, SuperChatColors } from "./schemas";
+import { type BannerActions, type BannerEvent, BannerParser } from "./bannerParser";
+import { RequestLimiter } from "./requestLimiter";
+import type {
+  AuthorBadge,
+  BadgeType,
+  ChatBanner,
+  ChatMessage,
+  MessageRun,
+  MessageType,
+  SuperChatColors,
+} from "./schemas";
+import { WatchPageFallback } from "./watchPageFallback";
+import { isConsentPage, type YouTubeCookies } from "./youtubeCookies";
 
 // Types for IINA API
 interface IINAConsole {
@@ -48,7 +60,20 @@ interface IINAUtils {
 }
 
 // Parallel fetch configuration
-const PARALLEL_WORKERS = 10;
+// Default ceiling for concurrent API requests (the maxConcurrentRequests preference)
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+// One worker per this much video, so short videos don't open more connections than they need
+const DURATION_PER_WORKER_MS = 15 * 60 * 1000;
+const MIN_WORKERS = 2;
+// Target segment length; shorter segments let workers follow the playback position more closely
+const SEGMENT_DURATION_MS = 10 * 60 * 1000;
+// Attempts per API request before a segment gives up (with 1s, 2s, ... backoff in between)
+const FRAGMENT_ATTEMPTS = 3;
+const FRAGMENT_RETRY_BASE_MS = 1000;
+// Passes over ranges that segments failed to cover
+const REPAIR_PASSES = 2;
+// Upper bound when continuing past the estimated end (durations can be a guess)
+const MAX_CHAT_DURATION_MS = 48 * 60 * 60 * 1000;
 
 // Progress callback type
 export type ProgressCallback = (progress: {
@@ -58,6 +83,18 @@ export type ProgressCallback = (progress: {
   message?: string;
 }) => void;
 
+// Callback for messages that become available before the whole fetch completes
+export type MessagesCallback = (messages: ChatMessage[]) => void;
+
+export interface FetchAllOptions {
+  /** Called with newly fetched messages as segments arrive (each message is delivered once) */
+  onMessages?: MessagesCallback;
+  /** Playback offset to deliver first; its segment streams fragment by fragment */
+  priorityOffsetMs?: number;
+  /** Length of chat to fetch, e.g. the part of a live stream broadcast so far (default: read from the video page) */
+  durationMs?: number;
+}
+
 // YouTube API types
 interface InnertubeContext {
   client: {
@@ -77,6 +114,7 @@ interface YtCfg {
   INNERTUBE_API_KEY?: string;
   INNERTUBE_CONTEXT?: InnertubeContext;
   INNERTUBE_CONTEXT_CLIENT_NAME?: number;
+  LOGGED_IN?: boolean;
 }
 
 // Chat message types from YouTube
@@ -105,7 +143,7 @@ interface AuthorBadgeYT {
 }
 
 interface LiveChatRenderer {
-  id: string;
+  id?: string;
   message?: { runs?: MessageRunYT[] };
   authorName?: { simpleText?: string };
   authorPhoto?: { thumbnails?: Thumbnail[] };
@@ -125,7 +163,7 @@ interface LiveChatPaidRenderer extends LiveChatRenderer {
 }
 
 interface LiveChatStickerRenderer {
-  id: string;
+  id?: string;
   authorName?: { simpleText?: string };
   authorPhoto?: { thumbnails?: Thumbnail[] };
   authorExternalChannelId?: string;
@@ -139,7 +177,7 @@ interface LiveChatStickerRenderer {
 }
 
 interface LiveChatMembershipRenderer {
-  id: string;
+  id?: string;
   authorName?: { simpleText?: string };
   authorPhoto?: { thumbnails?: Thumbnail[] };
   authorExternalChannelId?: string;
@@ -151,7 +189,7 @@ interface LiveChatMembershipRenderer {
 }
 
 interface LiveChatGiftRenderer {
-  id: string;
+  id?: string;
   authorName?: { simpleText?: string };
   authorPhoto?: { thumbnails?: Thumbnail[] };
   authorExternalChannelId?: string;
@@ -165,7 +203,7 @@ interface LiveChatGiftRenderer {
 }
 
 interface LiveChatEngagementRenderer {
-  id: string;
+  id?: string;
   message?: { runs?: MessageRunYT[] };
 }
 
@@ -179,25 +217,55 @@ interface ChatItem {
 }
 
 interface ReplayChatItemAction {
-  actions?: Array<{ addChatItemAction?: { item: ChatItem } }>;
+  actions?: Array<BannerActions & { addChatItemAction?: { item: ChatItem } }>;
   videoOffsetTimeMsec?: string;
 }
 
-interface ChatAction {
+export interface ChatAction {
   replayChatItemAction?: ReplayChatItemAction;
   addChatItemAction?: { item: ChatItem };
 }
 
+// Range of the video (seconds) whose chat could not be fetched
+export interface ChatGap {
+  start: number;
+  end: number;
+}
+
 // Result type
-export type ArchivedChatResult = { success: true; messages: ChatMessage[] } | { success: false; error: string };
+export type ArchivedChatResult =
+  | { success: true; messages: ChatMessage[]; banners: ChatBanner[]; gaps: ChatGap[] }
+  | { success: false; error: string; cancelled?: boolean };
+
+// Returned when cancel() (or a newer fetchAllMessages call) stops a fetch
+const CANCELLED_RESULT: ArchivedChatResult = { success: false, error: "Cancelled", cancelled: true };
+
+// Time range of the video fetched as one unit of work
+interface Segment {
+  segmentId: number;
+  start: number;
+  end: number;
+}
+
+// Parsing state of one fetch; kept per fetch so a cancelled fetch still finishing its requests
+// can't add banners or skip message indices in the next one
+interface ParseContext {
+  messageIndex: number;
+  // Pinned message and poll events collected while parsing, resolved into banners at the end
+  bannerEvents: BannerEvent[];
+  bannerParser: BannerParser;
+}
 
 // Segment worker result for parallel fetching
 interface SegmentWorkerResult {
-  workerId: number;
+  segmentId: number;
   messages: ChatMessage[];
   fragments: number;
   startOffsetMs: number;
   endOffsetMs: number;
+  segmentEndMs: number; // Requested end of the segment
+  coveredUntilMs: number; // Chat before this offset is complete (segmentEndMs if the whole segment was fetched)
+  reachedChatEnd: boolean; // The replay has no more chat after this segment
 }
 
 /**
@@ -206,15 +274,35 @@ interface SegmentWorkerResult {
  */
 export class ArchivedChatFetcher {
   private http: IINAHTTP;
-  private messageIndex = 0;
-
-  constructor(_utils: IINAUtils, http: IINAHTTP, _logger: IINAConsole) {
+  private priorityOffsetMs = 0;
+  // Incremented by each fetch and by cancel(); a fetch whose generation is no longer current stops
+  private fetchGeneration = 0;
+  // Shared by all workers (and consecutive downloads) so throttling slows every request down
+  private limiter = new RequestLimiter(DEFAULT_MAX_CONCURRENT_REQUESTS);
+  private getMaxConcurrentRequests: () => number;
+  private cookies: YouTubeCookies;
+  private watchPageFallback: WatchPageFallback;
+
+  constructor(
+    _utils: IINAUtils,
+    http: IINAHTTP,
+    cookies: YouTubeCookies,
+    _logger: IINAConsole,
+    getMaxConcurrentRequests: () => number,
+  ) {
     this.http = http;
+    this.cookies = cookies;
+    this.getMaxConcurrentRequests = getMaxConcurrentRequests;
+    this.watchPageFallback = new WatchPageFallback(
+      (url) => this.httpGet(url),
+      (url, data, headers) => this.httpPost(url, data, headers),
+    );
   }
 
   // ============================================================
   // HTTP Helpers
   // Uses IINA's native HTTP API to avoid exec buffer issues
+  // Requests carry the user's YouTube cookies when a cookies file is set (members-only chat)
   // ============================================================
 
   private async httpGet(url: string): Promise<{ success: boolean; body: string; error?: string }> {
@@ -224,6 +312,7 @@ export class ArchivedChatFetcher {
           "User-Agent":
             "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
           "Accept-Language": "en-US,en;q=0.9",
+          ...(await this.cookies.getRequestHeaders()),
         },
       });
 
@@ -241,29 +330,58 @@ export class ArchivedChatFetcher {
     }
   }
 
+  /**
+   * POST through the shared request limiter
+   * Rate limiting (429), server errors (5xx) and the "unusual traffic" page are reported as throttled,
+   * which pauses every worker before the request is retried
+   */
   private async httpPost(
     url: string,
     data: Record<string, unknown>,
     headers: Record<string, string>,
-  ): Promise<{ success: boolean; body: string; error?: string }> {
-    try {
-      const response = await this.http.post(url, {
-        headers,
-        data,
-      });
+  ): Promise<{ success: boolean; body: string; error?: string; throttled?: boolean }> {
+    return this.limiter.run(
+      async () => {
+        try {
+          const response = await this.http.post(url, {
+            // The SAPISIDHASH is time-based, so it is computed per request
+            headers: { ...headers, ...(await this.cookies.getRequestHeaders()) },
+            data,
+          });
+
+          if (this.isThrottledResponse(response)) {
+            return {
+              success: false,
+              body: "",
+              error: `HTTP POST throttled (status ${response.statusCode}): ${response.reason}`,
+              throttled: true,
+            };
+          }
 
-      if (response.statusCode < 200 || response.statusCode >= 300) {
-        return {
-          success: false,
-          body: "",
-          error: `HTTP POST failed (status ${response.statusCode}): ${response.reason}`,
-        };
-      }
+          if (response.statusCode < 200 || response.statusCode >= 300) {
+            return {
+              success: false,
+              body: "",
+              error: `HTTP POST failed (status ${response.statusCode}): ${response.reason}`,
+            };
+          }
 
-      return { success: true, body: response.text };
-    } catch (error) {
-      return { success: false, body: "", error: `HTTP POST error: ${error}` };
+          return { success: true, body: response.text };
+        } catch (error) {
+          return { success: false, body: "", error: `HTTP POST error: ${error}` };
+        }
+      },
+      (result) => result.throttled === true,
+    );
+  }
+
+  private isThrottledResponse(response: HTTPResponse): boolean {
+    if (response.statusCode === 429 || response.statusCode >= 500) {
+      return true;
     }
+    // YouTube sometimes answers with a captcha page instead of a status code (chat JSON may quote the same words)
+    const isHtml = response.text.trimStart().startsWith("<");
+    return isHtml && (response.text.includes("www.google.com/sorry") || response.text.includes("unusual traffic"));
   }
 
   // ============================================================
@@ -544,6 +662,25 @@ export class ArchivedChatFetcher {
   // Parallel Fetch Helpers
   // ============================================================
 
+  /**
+   * Fetch a fragment, retrying failed requests with backoff
+   */
+  private async fetchFragmentWithRetry(
+    apiUrl: string,
+    context: InnertubeContext,
+    continuation: string,
+    headers: Record<string, string>,
+    isCancelled: () => boolean,
+    seekOffsetMs?: number,
+  ): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string }> {
+    let result = await this.fetchFragment(apiUrl, context, continuation, headers, seekOffsetMs);
+    for (let attempt = 1; attempt < FRAGMENT_ATTEMPTS && !result.success && !isCancelled(); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, FRAGMENT_RETRY_BASE_MS * 2 ** (attempt - 1)));
+      result = await this.fetchFragment(apiUrl, context, continuation, headers, seekOffsetMs);
+    }
+    return result;
+  }
+
   /**
    * Fetch a single API fragment with optional seek offset
    */
@@ -630,24 +767,53 @@ export class ArchivedChatFetcher {
    * Fetch a segment of chat messages (for parallel worker)
    */
   private async fetchSegment(
-    workerId: number,
+    segmentId: number,
     apiUrl: string,
     context: InnertubeContext,
     initialContinuation: string,
     headers: Record<string, string>,
     startOffsetMs: number,
     endOffsetMs: number,
-    onProgress?: (workerId: number, messageCount: number) => void,
+    parseContext: ParseContext,
+    isCancelled: () => boolean,
+    onProgress?: (segmentId: number, messageCount: number) => void,
+    onFragment?: MessagesCallback,
   ): Promise<SegmentWorkerResult> {
     const messages: ChatMessage[] = [];
     let fragments = 0;
     let actualStartOffsetMs = startOffsetMs;
     let actualEndOffsetMs = startOffsetMs;
+    let coveredUntilMs = startOffsetMs;
+    let reachedChatEnd = false;
+
+    const buildResult = (): SegmentWorkerResult => ({
+      segmentId,
+      messages,
+      fragments,
+      startOffsetMs: actualStartOffsetMs,
+      endOffsetMs: actualEndOffsetMs,
+      segmentEndMs: endOffsetMs,
+      coveredUntilMs,
+      reachedChatEnd,
+    });
+
+    // The last request made, so a response without continuation can be asked for again
+    let requestContinuation = initialContinuation;
+    let requestSeekMs: number | undefined = startOffsetMs;
+    let endRechecked = false;
+    const seenIds = new Set<string>();
 
     // First request with seek
-    let result = await this.fetchFragment(apiUrl, context, initialContinuation, headers, startOffsetMs);
-    if (!result.success || !result.data) {
-      return { workerId, messages, fragments, startOffsetMs: actualStartOffsetMs, endOffsetMs: actualEndOffsetMs };
+    let result = await this.fetchFragmentWithRetry(
+      apiUrl,
+      context,
+      requestContinuation,
+      headers,
+      isCancelled,
+      requestSeekMs,
+    );
+    if (!result.success || !result.data || isCancelled()) {
+      return buildResult();
     }
 
     let lcc = this.getLiveChatContinuation(result.data);
@@ -655,49 +821,140 @@ export class ArchivedChatFetcher {
     while (lcc) {
       fragments++;
       const parsed = this.parseReplayResponse(lcc);
-      const segmentMessages = this.parseActions(parsed.actions);
+      const segmentMessages = this.parseActions(parsed.actions, parseContext);
 
       // Filter messages within our segment range
+      const fragmentMessages: ChatMessage[] = [];
       for (const msg of segmentMessages) {
         const msgOffsetMs = msg.timestamp * 1000;
-        if (msgOffsetMs >= startOffsetMs && msgOffsetMs < endOffsetMs) {
+        if (msgOffsetMs >= startOffsetMs && msgOffsetMs < endOffsetMs && !seenIds.has(msg.id)) {
+          seenIds.add(msg.id);
           messages.push(msg);
+          fragmentMessages.push(msg);
           if (msgOffsetMs > actualEndOffsetMs) actualEndOffsetMs = msgOffsetMs;
           if (fragments === 1 && messages.length === 1) actualStartOffsetMs = msgOffsetMs;
         }
       }
 
-      onProgress?.(workerId, messages.length);
+      if (fragmentMessages.length > 0) {
+        onFragment?.(fragmentMessages);
+      }
+      onProgress?.(segmentId, messages.length);
 
       // Check if we've passed our segment end
       if (parsed.offset !== null && parsed.offset >= endOffsetMs) {
+        coveredUntilMs = endOffsetMs;
         break;
       }
+      if (parsed.offset !== null) {
+        coveredUntilMs = Math.max(coveredUntilMs, parsed.offset);
+      }
 
-      // Get next continuation
-      if (!parsed.continuation) break;
+      if (isCancelled()) break;
 
-      result = await this.fetchFragment(apiUrl, context, parsed.continuation, headers);
-      if (!result.success || !result.data) break;
+      if (parsed.continuation) {
+        requestContinuation = parsed.continuation;
+        requestSeekMs = undefined;
+        endRechecked = false;
+      } else if (endRechecked) {
+        // No continuation twice in a row: this is the end of the replay
+        coveredUntilMs = endOffsetMs;
+        reachedChatEnd = true;
+        break;
+      } else {
+        // A missing continuation can be transient, and would end every later gap, so ask again first
+        endRechecked = true;
+      }
+
+      // A failed request leaves the rest of the segment uncovered, for the repair pass
+      result = await this.fetchFragmentWithRetry(
+        apiUrl,
+        context,
+        requestContinuation,
+        headers,
+        isCancelled,
+        requestSeekMs,
+      );
+      if (!result.success || !result.data || isCancelled()) break;
 
       lcc = this.getLiveChatContinuation(result.data);
     }
 
-    return { workerId, messages, fragments, startOffsetMs: actualStartOffsetMs, endOffsetMs: actualEndOffsetMs };
+    return buildResult();
+  }
+
+  /**
+   * Pick the pending segment closest to the current priority offset
+   * Segments ahead of the position are preferred, since playback moves forward
+   */
+  private takeNextSegment(pending: Segment[]): Segment | undefined {
+    if (pending.length === 0) return undefined;
+
+    const position = this.priorityOffsetMs;
+    const distance = (seg: Segment): number => {
+      if (position >= seg.start && position < seg.end) return 0;
+      if (seg.start >= position) return seg.start - position;
+      return (position - seg.end) * 2;
+    };
+
+    let bestIndex = 0;
+    for (let i = 1; i < pending.length; i++) {
+      if (distance(pending[i]) < distance(pending[bestIndex])) {
+        bestIndex = i;
+      }
+    }
+
+    return pending.splice(bestIndex, 1)[0];
   }
 
   // ============================================================
   // Main Fetch Method
   // ============================================================
 
+  /**
+   * Update the playback offset that pending segments are ordered by
+   * Call on seek so workers move to the part of the video being watched
+   */
+  setPriorityOffset(offsetMs: number): void {
+    this.priorityOffsetMs = Math.max(0, offsetMs);
+  }
+
+  /**
+   * Stop the running fetch (e.g. when the video changes)
+   * Workers finish their in-flight request, then fetchAllMessages returns a cancelled result
+   */
+  cancel(): void {
+    this.fetchGeneration++;
+  }
+
   /**
    * Fetch all archived chat messages
    * Main entry point - follows yt-dlp's real_download flow (youtube_live_chat.py:19-192)
+   * Only one fetch runs at a time: starting a new one cancels the previous one
    */
-  async fetchAllMessages(videoId: string, onProgress?: ProgressCallback): Promise<ArchivedChatResult> {
-    this.messageIndex = 0;
+  async fetchAllMessages(
+    videoId: string,
+    onProgress?: ProgressCallback,
+    options: FetchAllOptions = {},
+  ): Promise<ArchivedChatResult> {
+    const generation = ++this.fetchGeneration;
+    const isCancelled = () => generation !== this.fetchGeneration;
+
+    const parseContext = this.createParseContext();
     const allMessages: ChatMessage[] = [];
 
+    // Deliver partial results at most once per message (segments overlap with the first page)
+    const emittedIds = new Set<string>();
+    const emitMessages = (messages: ChatMessage[]) => {
+      if (!options.onMessages || isCancelled()) return;
+      const fresh = messages.filter((msg) => !emittedIds.has(msg.id));
+      if (fresh.length === 0) return;
+      for (const msg of fresh) {
+        emittedIds.add(msg.id);
+      }
+      options.onMessages(fresh);
+    };
+
     onProgress?.({ fetchedMessages: 0, currentOffsetMs: 0, status: "fetching", message: "Fetching video page..." });
 
     // ========================================
@@ -705,16 +962,54 @@ export class ArchivedChatFetcher {
     // ========================================
     const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
     const videoPageResponse = await this.httpGet(videoPageUrl);
+    if (isCancelled()) {
+      return CANCELLED_RESULT;
+    }
     if (!videoPageResponse.success) {
       return { success: false, error: videoPageResponse.error || "Failed to fetch video page" };
     }
 
-    const videoHtml = videoPageResponse.body;
+    let videoHtml = videoPageResponse.body;
+
+    // Extract ytcfg and ytInitialData
+    let ytcfg = this.extractYtcfg(videoHtml);
+    let videoYtInitialData = this.extractYtInitialData(videoHtml);
+
+    // Consent interstitials (EU networks) and other page layouts lack them: get the same data elsewhere
+    if (!ytcfg?.INNERTUBE_API_KEY || !ytcfg.INNERTUBE_CONTEXT || !videoYtInitialData) {
+      const pageKind = isConsentPage(videoHtml) ? "a consent page" : "an unrecognized watch page";
+      onProgress?.({
+        fetchedMessages: 0,
+        currentOffsetMs: 0,
+        status: "fetching",
+        message: "Fetching video data from the embed page...",
+      });
+
+      const fallback = await this.watchPageFallback.fetch(videoId);
+      if (isCancelled()) {
+        return CANCELLED_RESULT;
+      }
+      const fallbackData = fallback.success ? this.extractDataFromResponse(fallback.nextText) : null;
+      if (!fallback.success || !fallbackData) {
+        const reason = fallback.success ? "could not parse next endpoint response" : fallback.error;
+        return {
+          success: false,
+          error: `Could not extract YouTube configuration (YouTube returned ${pageKind}; fallback: ${reason})`,
+        };
+      }
+
+      ytcfg = {
+        INNERTUBE_API_KEY: fallback.apiKey,
+        INNERTUBE_CONTEXT: fallback.context,
+        LOGGED_IN: fallback.loggedIn ?? undefined,
+      };
+      videoYtInitialData = fallbackData;
+      // The player response has the video details the duration is read from
+      videoHtml = fallback.playerText;
+    }
 
-    // Extract ytcfg
-    const ytcfg = this.extractYtcfg(videoHtml);
-    if (!ytcfg) {
-      return { success: false, error: "Could not extract YouTube configuration" };
+    if (ytcfg.LOGGED_IN !== undefined) {
+      this.cookies.reportSignedIn(ytcfg.LOGGED_IN);
     }
 
     const apiKey = ytcfg.INNERTUBE_API_KEY;
@@ -728,18 +1023,30 @@ export class ArchivedChatFetcher {
     const clientVersion = innertubeContext.client.clientVersion;
     const userAgent = innertubeContext.client.userAgent;
 
-    // Extract ytInitialData from video page
-    const videoYtInitialData = this.extractYtInitialData(videoHtml);
-    if (!videoYtInitialData) {
-      return { success: false, error: "Could not extract initial data from video page" };
-    }
-
     // Get initial continuation from video page
     let continuationId = this.extractInitialContinuation(videoYtInitialData);
     if (!continuationId) {
       return { success: false, error: "No chat replay available for this video" };
     }
 
+    const apiUrl = `https://www.youtube.com/youtubei/v1/live_chat/get_live_chat_replay?key=${apiKey}`;
+
+    // Build headers for API requests
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-YouTube-Client-Name": "1",
+      "X-YouTube-Client-Version": clientVersion,
+      Origin: "https://www.youtube.com",
+    };
+
+    if (visitorData) {
+      headers["X-Goog-Visitor-Id"] = visitorData;
+    }
+
+    if (userAgent) {
+      headers["User-Agent"] = userAgent;
+    }
+
     // ========================================
     // Step 2: Fetch first chat page (fragment 1)
     // ========================================
@@ -747,12 +1054,23 @@ export class ArchivedChatFetcher {
 
     const chatPageUrl = `https://www.youtube.com/live_chat_replay?continuation=${continuationId}`;
     const chatPageResponse = await this.httpGet(chatPageUrl);
+    if (isCancelled()) {
+      return CANCELLED_RESULT;
+    }
     if (!chatPageResponse.success) {
       return { success: false, error: chatPageResponse.error || "Failed to fetch chat page" };
     }
 
     // Extract data from chat page (ytInitialData or direct JSON)
-    const chatPageData = this.extractDataFromResponse(chatPageResponse.body);
+    let chatPageData = this.extractDataFromResponse(chatPageResponse.body);
+    if (!chatPageData && isConsentPage(chatPageResponse.body)) {
+      // Behind a consent page: request the first fragment from the replay API instead
+      const fragment = await this.fetchFragment(apiUrl, innertubeContext, continuationId, headers);
+      if (isCancelled()) {
+        return CANCELLED_RESULT;
+      }
+      chatPageData = fragment.data ?? null;
+    }
     if (!chatPageData) {
       return { success: false, error: "Could not parse chat page data" };
     }
@@ -774,8 +1092,9 @@ export class ArchivedChatFetcher {
     } else {
       // Parse actions from first page
       const firstParsed = this.parseReplayResponse(liveChatContinuation);
-      const firstMessages = this.parseActions(firstParsed.actions);
+      const firstMessages = this.parseActions(firstParsed.actions, parseContext);
       allMessages.push(...firstMessages);
+      emitMessages(firstMessages);
 
       // If no continuation, can't proceed with parallel fetch
       if (!firstParsed.continuation) {
@@ -785,7 +1104,12 @@ export class ArchivedChatFetcher {
           status: "complete",
           message: `Fetched ${allMessages.length} messages`,
         });
-        return { success: true, messages: allMessages };
+        return {
+          success: true,
+          messages: allMessages,
+          banners: BannerParser.buildTimeline(parseContext.bannerEvents),
+          gaps: [],
+        };
       }
 
       continuationId = firstParsed.continuation;
@@ -804,49 +1128,42 @@ export class ArchivedChatFetcher {
     // ========================================
     // Step 4: Parallel fetch of remaining fragments
     // ========================================
-    const apiUrl = `https://www.youtube.com/youtubei/v1/live_chat/get_live_chat_replay?key=${apiKey}`;
-
-    // Build headers for API requests
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      "X-YouTube-Client-Name": "1",
-      "X-YouTube-Client-Version": clientVersion,
-      Origin: "https://www.youtube.com",
-    };
-
-    if (visitorData) {
-      headers["X-Goog-Visitor-Id"] = visitorData;
-    }
-
-    if (userAgent) {
-      headers["User-Agent"] = userAgent;
-    }
 
     // Get video duration from video page HTML (no additional HTTP requests needed)
-    let videoDurationMs = this.extractVideoDurationFromHtml(videoHtml);
+    let videoDurationMs = options.durationMs ?? this.extractVideoDurationFromHtml(videoHtml);
     if (!videoDurationMs) {
       // Fallback: use a default duration (2 hours)
       videoDurationMs = 2 * 60 * 60 * 1000;
     }
 
-    // Divide into segments
-    const segmentDuration = videoDurationMs / PARALLEL_WORKERS;
-    const segments: { start: number; end: number }[] = [];
+    // Size the worker pool by duration; the limiter lowers actual concurrency further if YouTube throttles
+    const maxConcurrentRequests = this.getMaxConcurrentRequests();
+    this.limiter.setCeiling(maxConcurrentRequests);
+    const workerCount = Math.max(
+      1,
+      Math.min(maxConcurrentRequests, Math.max(MIN_WORKERS, Math.ceil(videoDurationMs / DURATION_PER_WORKER_MS))),
+    );
+
+    // Divide into segments (at least one per worker)
+    const segmentCount = Math.max(workerCount, Math.ceil(videoDurationMs / SEGMENT_DURATION_MS));
+    const segmentDuration = videoDurationMs / segmentCount;
+    const segments: Segment[] = [];
 
-    for (let i = 0; i < PARALLEL_WORKERS; i++) {
+    for (let i = 0; i < segmentCount; i++) {
       segments.push({
+        segmentId: i,
         start: Math.floor(i * segmentDuration),
         end: Math.floor((i + 1) * segmentDuration),
       });
     }
     // Ensure last segment goes past the end
-    segments[PARALLEL_WORKERS - 1].end = videoDurationMs + 60000;
+    segments[segmentCount - 1].end = videoDurationMs + 60000;
 
-    // Track progress per worker
-    const workerProgress = new Array(PARALLEL_WORKERS).fill(0);
-    const updateProgress = (workerId: number, messageCount: number) => {
-      workerProgress[workerId] = messageCount;
-      const total = workerProgress.reduce((a, b) => a + b, 0) + allMessages.length;
+    // Track progress per segment
+    const segmentProgress = new Array(segmentCount).fill(0);
+    const updateProgress = (segmentId: number, messageCount: number) => {
+      segmentProgress[segmentId] = messageCount;
+      const total = segmentProgress.reduce((a, b) => a + b, 0) + allMessages.length;
       onProgress?.({
         fetchedMessages: total,
         currentOffsetMs: 0,
@@ -863,11 +1180,101 @@ export class ArchivedChatFetcher {
       message: "Fetching chat messages...",
     });
 
-    const workerPromises = segments.map((seg, i) =>
-      this.fetchSegment(i, apiUrl, innertubeContext, continuationId, headers, seg.start, seg.end, updateProgress),
-    );
+    // Workers pull segments closest to the playback position first (updated on seek via setPriorityOffset)
+    this.priorityOffsetMs = options.priorityOffsetMs ?? 0;
+
+    const runSegments = async (toFetch: Segment[]): Promise<SegmentWorkerResult[]> => {
+      const pending = [...toFetch];
+      const workerPromises = Array.from({ length: workerCount }, () => runWorker(pending));
+      return (await Promise.all(workerPromises)).flat();
+    };
+
+    const runWorker = async (pending: Segment[]): Promise<SegmentWorkerResult[]> => {
+      const results: SegmentWorkerResult[] = [];
+
+      for (let seg = this.takeNextSegment(pending); seg && !isCancelled(); seg = this.takeNextSegment(pending)) {
+        // The segment being watched streams each fragment, the rest deliver on completion
+        const isWatched = this.priorityOffsetMs >= seg.start && this.priorityOffsetMs < seg.end;
+        const result = await this.fetchSegment(
+          seg.segmentId,
+          apiUrl,
+          innertubeContext,
+          continuationId,
+          headers,
+          seg.start,
+          seg.end,
+          parseContext,
+          isCancelled,
+          updateProgress,
+          isWatched ? emitMessages : undefined,
+        );
+        emitMessages(result.messages);
+        results.push(result);
+      }
+
+      return results;
+    };
+
+    const workerResults = await runSegments(segments);
+    if (isCancelled()) {
+      return CANCELLED_RESULT;
+    }
+    let nextSegmentId = segmentCount;
+
+    // Keep going while chat continues past the estimated end (the duration may be the 2-hour default)
+    let tailEndMs = segments[segmentCount - 1].end;
+    let tail = workerResults.find((result) => result.segmentId === segmentCount - 1);
+    while (
+      tail &&
+      !tail.reachedChatEnd &&
+      tail.coveredUntilMs >= tailEndMs &&
+      tailEndMs < MAX_CHAT_DURATION_MS &&
+      !isCancelled()
+    ) {
+      const extension: Segment[] = [];
+      for (let i = 0; i < workerCount; i++) {
+        extension.push({ segmentId: nextSegmentId++, start: tailEndMs, end: tailEndMs + SEGMENT_DURATION_MS });
+        tailEndMs += SEGMENT_DURATION_MS;
+      }
+
+      const extensionResults = await runSegments(extension);
+      workerResults.push(...extensionResults);
+      tail = extensionResults.find((result) => result.segmentId === nextSegmentId - 1);
+    }
+
+    // Refetch ranges that segments failed to cover
+    const toGap = (result: SegmentWorkerResult): Segment => ({
+      segmentId: nextSegmentId++,
+      start: result.coveredUntilMs,
+      end: result.segmentEndMs,
+    });
+    let uncovered = workerResults.filter((result) => result.coveredUntilMs < result.segmentEndMs).map(toGap);
+
+    for (let pass = 1; pass <= REPAIR_PASSES && uncovered.length > 0 && !isCancelled(); pass++) {
+      onProgress?.({
+        fetchedMessages: allMessages.length,
+        currentOffsetMs: 0,
+        status: "fetching",
+        message: `Refetching ${uncovered.length} incomplete ${uncovered.length === 1 ? "range" : "ranges"}...`,
+      });
+
+      const repairResults = await runSegments(uncovered);
+      workerResults.push(...repairResults);
+      uncovered = repairResults.filter((result) => result.coveredUntilMs < result.segmentEndMs).map(toGap);
+    }
 
-    const workerResults = await Promise.all(workerPromises);
+    if (isCancelled()) {
+      return CANCELLED_RESULT;
+    }
+
+    // Anything after the end of the replay isn't missing
+    const chatEndMs = Math.min(
+      ...workerResults.filter((result) => result.reachedChatEnd).map((result) => result.endOffsetMs),
+    );
+    const gaps: ChatGap[] = uncovered
+      .filter((gap) => gap.start < chatEndMs)
+      .map((gap) => ({ start: gap.start / 1000, end: Math.min(gap.end, chatEndMs) / 1000 }))
+      .sort((a, b) => a.start - b.start);
 
     // Merge and deduplicate
     const seenIds = new Set<string>();
@@ -899,14 +1306,37 @@ export class ArchivedChatFetcher {
       message: `Fetched ${allMessages.length} messages`,
     });
 
-    return { success: true, messages: allMessages };
+    return {
+      success: true,
+      messages: allMessages,
+      banners: BannerParser.buildTimeline(parseContext.bannerEvents),
+      gaps,
+    };
   }
 
   // ============================================================
   // Message Parsing
   // ============================================================
 
-  private parseActions(actions: ChatAction[]): ChatMessage[] {
+  /**
+   * Parse replay actions obtained outside of the API (e.g. a yt-dlp live_chat.json file)
+   */
+  parseReplayActions(actions: ChatAction[]): { messages: ChatMessage[]; banners: ChatBanner[] } {
+    const parseContext = this.createParseContext();
+    const messages = this.parseActions(actions, parseContext);
+    return { messages, banners: BannerParser.buildTimeline(parseContext.bannerEvents) };
+  }
+
+  private createParseContext(): ParseContext {
+    const context: ParseContext = {
+      messageIndex: 0,
+      bannerEvents: [],
+      bannerParser: new BannerParser((item, timestamp) => this.parseItem(item as ChatItem, timestamp, context)),
+    };
+    return context;
+  }
+
+  private parseActions(actions: ChatAction[], context: ParseContext): ChatMessage[] {
     const messages: ChatMessage[] = [];
 
     for (const action of actions) {
@@ -918,16 +1348,23 @@ export class ArchivedChatFetcher {
         for (const innerAction of action.replayChatItemAction.actions || []) {
           const item = innerAction.addChatItemAction?.item;
           if (item) {
-            const msg = this.parseItem(item, timestamp);
+            const msg = this.parseItem(item, timestamp, context);
             if (msg) {
               messages.push(msg);
             }
+            continue;
+          }
+
+          // Ticker actions only repeat messages that are already in the replay, so just banners and polls
+          const bannerEvent = context.bannerParser.parseEvent(innerAction, timestamp);
+          if (bannerEvent) {
+            context.bannerEvents.push(bannerEvent);
           }
         }
       }
       // Handle direct addChatItemAction (for some edge cases)
       else if (action.addChatItemAction?.item) {
-        const msg = this.parseItem(action.addChatItemAction.item, 0);
+        const msg = this.parseItem(action.addChatItemAction.item, 0, context);
         if (msg) {
           messages.push(msg);
         }
@@ -937,8 +1374,8 @@ export class ArchivedChatFetcher {
     return messages;
   }
 
-  private parseItem(item: ChatItem, timestamp: number): ChatMessage | null {
-    const index = this.messageIndex++;
+  private parseItem(item: ChatItem, timestamp: number, context: ParseContext): ChatMessage | null {
+    const index = context.messageIndex++;
 
     // Regular text message
     if (item.liveChatTextMessageRenderer) {
@@ -1039,6 +1476,7 @@ export class ArchivedChatFetcher {
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
         message: giftText || "(Gift Membership)",
+        giftCount: this.parseGiftCount(giftText),
         timestampText: r.timestampText?.simpleText,
       };
     }
@@ -1130,6 +1568,15 @@ export class ArchivedChatFetcher {
     return result.length > 0 ? result : undefined;
   }
 
+  /**
+   * Number of memberships in a gift announcement ("Gifted 5 … memberships"), undefined if none is given
+   */
+  private parseGiftCount(giftText: string): number | undefined {
+    const match = giftText.match(/\d[\d,.]*/);
+    const count = match ? Number.parseInt(match[0].replace(/[,.]/g, ""), 10) : Number.NaN;
+    return count > 0 ? count : undefined;
+  }
+
   private getBestThumbnail(thumbnails: Thumbnail[] | undefined): string | undefined {
     if (!thumbnails?.length) return undefined;
     const sorted = [...thumbnails].sort((a, b) => (b.width || 0) - (a.width || 0));
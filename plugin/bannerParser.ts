@@ -0,0 +1,244 @@
+/**
+ * Banner Parser - Turns pinned message, poll and ticker actions into the banner model
+ * Used by both the live and archived fetchers; chat items embedded in these actions are
+ * parsed by the fetcher's own item parser, so they look the same as regular messages.
+ *
+ * Handled actions:
+ * - addBannerToLiveChatCommand / removeBannerForLiveChatCommand (pinned messages)
+ * - showLiveChatActionPanelAction / updateLiveChatPollAction / closeLiveChatActionPanelAction (polls)
+ * - addLiveChatTickerItemAction (paid messages and memberships pinned in YouTube's ticker)
+ */
+
+import type { ChatBanner, ChatMessage, PollChoice } from "./schemas";
+
+// Parses a chat item renderer (e.g. { liveChatTextMessageRenderer: {...} }) at the given video offset
+export type ChatItemParser = (item: Record<string, unknown>, timestamp: number) => ChatMessage | null;
+
+export type BannerEvent =
+  | { type: "add"; banner: ChatBanner }
+  | { type: "update-poll"; pollId: string; choices: PollChoice[]; timestamp: number }
+  | { type: "remove"; id: string; timestamp: number };
+
+interface TextYT {
+  simpleText?: string;
+  runs?: Array<{ text?: string; emoji?: { shortcuts?: string[] } }>;
+}
+
+interface LiveChatBannerRenderer {
+  actionId?: string;
+  header?: { liveChatBannerHeaderRenderer?: { text?: TextYT } };
+  contents?: Record<string, unknown> & {
+    liveChatBannerRedirectRenderer?: { bannerMessage?: TextYT };
+  };
+}
+
+interface PollRenderer {
+  liveChatPollId?: string;
+  header?: { pollHeaderRenderer?: { pollQuestion?: TextYT; metadataText?: TextYT } };
+  choices?: Array<{ text?: TextYT; votePercentage?: TextYT; voteRatio?: number }>;
+}
+
+interface TickerItemRenderer {
+  showItemEndpoint?: { showLiveChatItemEndpoint?: { renderer?: Record<string, unknown> } };
+}
+
+export interface BannerActions {
+  addBannerToLiveChatCommand?: { bannerRenderer?: { liveChatBannerRenderer?: LiveChatBannerRenderer } };
+  removeBannerForLiveChatCommand?: { targetActionId?: string };
+  showLiveChatActionPanelAction?: {
+    panelToShow?: { liveChatActionPanelRenderer?: { id?: string; contents?: { pollRenderer?: PollRenderer } } };
+  };
+  updateLiveChatPollAction?: { pollToUpdate?: { pollRenderer?: PollRenderer } };
+  closeLiveChatActionPanelAction?: { targetPanelId?: string };
+  addLiveChatTickerItemAction?: { item?: Record<string, TickerItemRenderer> };
+}
+
+/**
+ * Banner Parser class
+ */
+export class BannerParser {
+  private parseItem: ChatItemParser;
+
+  constructor(parseItem: ChatItemParser) {
+    this.parseItem = parseItem;
+  }
+
+  /**
+   * Parse a banner or poll action into an event, or null for other actions
+   */
+  parseEvent(action: BannerActions, timestamp: number): BannerEvent | null {
+    const bannerRenderer = action.addBannerToLiveChatCommand?.bannerRenderer?.liveChatBannerRenderer;
+    if (bannerRenderer) {
+      return this.parseBanner(bannerRenderer, timestamp);
+    }
+
+    const removedId = action.removeBannerForLiveChatCommand?.targetActionId;
+    if (removedId) {
+      return { type: "remove", id: removedId, timestamp };
+    }
+
+    const panel = action.showLiveChatActionPanelAction?.panelToShow?.liveChatActionPanelRenderer;
+    if (panel?.id && panel.contents?.pollRenderer) {
+      const poll = panel.contents.pollRenderer;
+      return {
+        type: "add",
+        banner: {
+          id: panel.id,
+          kind: "poll",
+          timestamp,
+          header: this.getText(poll.header?.pollHeaderRenderer?.metadataText) || undefined,
+          pollId: poll.liveChatPollId,
+          question: this.getText(poll.header?.pollHeaderRenderer?.pollQuestion),
+          choices: this.parsePollChoices(poll),
+        },
+      };
+    }
+
+    const updatedPoll = action.updateLiveChatPollAction?.pollToUpdate?.pollRenderer;
+    if (updatedPoll?.liveChatPollId) {
+      return {
+        type: "update-poll",
+        pollId: updatedPoll.liveChatPollId,
+        choices: this.parsePollChoices(updatedPoll),
+        timestamp,
+      };
+    }
+
+    const closedPanelId = action.closeLiveChatActionPanelAction?.targetPanelId;
+    if (closedPanelId) {
+      return { type: "remove", id: closedPanelId, timestamp };
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse the chat item behind a ticker entry
+   * Ticker entries can reference messages sent before chat was opened, so they are treated as messages
+   */
+  parseTickerItem(action: BannerActions, timestamp: number): ChatMessage | null {
+    const item = action.addLiveChatTickerItemAction?.item;
+    if (!item) return null;
+
+    for (const tickerRenderer of Object.values(item)) {
+      const renderer = tickerRenderer.showItemEndpoint?.showLiveChatItemEndpoint?.renderer;
+      if (renderer) {
+        return this.parseItem(renderer, timestamp);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply events to the set of banners currently shown (live chat)
+   */
+  static applyEvents(banners: ChatBanner[], events: BannerEvent[]): ChatBanner[] {
+    let result = banners;
+    for (const event of events) {
+      switch (event.type) {
+        case "add":
+          result = [...result.filter((banner) => banner.id !== event.banner.id), event.banner];
+          break;
+        case "update-poll":
+          result = result.map((banner) =>
+            banner.pollId === event.pollId ? { ...banner, choices: event.choices } : banner,
+          );
+          break;
+        case "remove":
+          result = result.filter((banner) => banner.id !== event.id);
+          break;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Resolve events into banners with start and end offsets (archived chat)
+   * Events may arrive out of order and duplicated from overlapping fetch segments
+   */
+  static buildTimeline(events: BannerEvent[]): ChatBanner[] {
+    const timeOf = (event: BannerEvent) => (event.type === "add" ? event.banner.timestamp : event.timestamp);
+    const sorted = [...events].sort((a, b) => timeOf(a) - timeOf(b));
+    const banners: ChatBanner[] = [];
+
+    // Latest banner matching the predicate that hasn't been removed yet
+    const findOpen = (predicate: (banner: ChatBanner) => boolean): ChatBanner | undefined => {
+      for (let i = banners.length - 1; i >= 0; i--) {
+        if (banners[i].endTimestamp === undefined && predicate(banners[i])) {
+          return banners[i];
+        }
+      }
+      return undefined;
+    };
+
+    for (const event of sorted) {
+      switch (event.type) {
+        case "add":
+          if (!findOpen((banner) => banner.id === event.banner.id)) {
+            banners.push({ ...event.banner });
+          }
+          break;
+        case "update-poll": {
+          const poll = findOpen((banner) => banner.pollId === event.pollId);
+          if (poll) poll.choices = event.choices;
+          break;
+        }
+        case "remove": {
+          const banner = findOpen((b) => b.id === event.id);
+          if (banner) banner.endTimestamp = event.timestamp;
+          break;
+        }
+      }
+    }
+
+    return banners;
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private parseBanner(renderer: LiveChatBannerRenderer, timestamp: number): BannerEvent | null {
+    if (!renderer.actionId || !renderer.contents) return null;
+
+    const header = this.getText(renderer.header?.liveChatBannerHeaderRenderer?.text) || undefined;
+    const redirect = renderer.contents.liveChatBannerRedirectRenderer;
+    const message = redirect ? null : this.parseItem(renderer.contents, timestamp);
+    const text = redirect ? this.getText(redirect.bannerMessage) : undefined;
+
+    if (!message && !text) return null;
+
+    return {
+      type: "add",
+      banner: {
+        id: renderer.actionId,
+        kind: "pinned",
+        timestamp,
+        header,
+        message: message ?? undefined,
+        text,
+      },
+    };
+  }
+
+  private parsePollChoices(poll: PollRenderer): PollChoice[] {
+    return (poll.choices ?? []).map((choice) => {
+      const percentageText = this.getText(choice.votePercentage);
+      const percentage = percentageText
+        ? Number.parseFloat(percentageText)
+        : choice.voteRatio !== undefined
+          ? choice.voteRatio * 100
+          : undefined;
+      return {
+        text: this.getText(choice.text),
+        percentage: percentage !== undefined && Number.isFinite(percentage) ? percentage : undefined,
+      };
+    });
+  }
+
+  private getText(text: TextYT | undefined): string {
+    if (!text) return "";
+    if (text.simpleText !== undefined) return text.simpleText;
+    return (text.runs ?? []).map((run) => run.text ?? run.emoji?.shortcuts?.[0] ?? "").join("");
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Chat Activity - Aggregates archived chat into time buckets for the activity timeline
+ * Each bucket counts messages, Super Chats (and their amounts) and emojis so that hype moments stand out
+ */
+
+import type { ChatMessage } from "./schemas";
+import type { SuperChatLedger } from "./superChatLedger";
+
+// Super Chat amounts in a bucket; currencies can't be converted, so each one has its own total
+export interface BucketCurrencyTotal {
+  currency: string;
+  total: number;
+}
+
+export interface ActivityBucket {
+  start: number; // Video offset in seconds
+  messageCount: number;
+  superChatCount: number; // Super Chats and Super Stickers
+  superChatTotals: BucketCurrencyTotal[]; // Largest first; amounts that could not be parsed are left out
+  emojiCount: number;
+  isEmojiBurst: boolean;
+}
+
+export interface ChatActivitySummary {
+  duration: number; // Seconds covered by the buckets
+  bucketSeconds: number;
+  maxMessageCount: number;
+  buckets: ActivityBucket[];
+}
+
+// The timeline is a narrow strip, so more buckets than this would not be visible
+const MAX_BUCKETS = 200;
+const BUCKET_SIZES_SECONDS = [10, 15, 30, 60, 120, 300, 600, 900, 1800];
+
+// A bucket is an emoji burst when it has this many emojis and is well above the average
+const MIN_BURST_EMOJIS = 10;
+const BURST_STDDEV_FACTOR = 2;
+
+/**
+ * Chat Activity Aggregator class
+ */
+export class ChatActivityAggregator {
+  private ledger: SuperChatLedger;
+
+  constructor(ledger: SuperChatLedger) {
+    this.ledger = ledger;
+  }
+
+  /**
+   * Bucket messages over the video duration
+   * The duration is extended to the last message if chat runs past the reported video length
+   */
+  aggregate(messages: ChatMessage[], durationSeconds: number): ChatActivitySummary {
+    const lastTimestamp = messages.length > 0 ? messages[messages.length - 1].timestamp : 0;
+    const duration = Math.max(durationSeconds, lastTimestamp, 1);
+    const bucketSeconds = this.chooseBucketSize(duration);
+    const bucketCount = Math.ceil(duration / bucketSeconds);
+
+    const buckets: ActivityBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+      start: i * bucketSeconds,
+      messageCount: 0,
+      superChatCount: 0,
+      superChatTotals: [],
+      emojiCount: 0,
+      isEmojiBurst: false,
+    }));
+
+    for (const msg of messages) {
+      // Chat from before the stream started has negative offsets and isn't on the timeline
+      if (msg.timestamp < 0) continue;
+
+      const bucket = buckets[Math.min(bucketCount - 1, Math.floor(msg.timestamp / bucketSeconds))];
+      bucket.messageCount++;
+      if (msg.type === "superchat" || msg.type === "supersticker") {
+        bucket.superChatCount++;
+        this.addAmount(bucket, msg.amount);
+      }
+      bucket.emojiCount += msg.messageRuns?.filter((run) => run.type === "emoji").length ?? 0;
+    }
+
+    this.markEmojiBursts(buckets);
+    for (const bucket of buckets) {
+      bucket.superChatTotals.sort((a, b) => b.total - a.total);
+    }
+
+    return {
+      duration,
+      bucketSeconds,
+      maxMessageCount: buckets.reduce((max, bucket) => Math.max(max, bucket.messageCount), 0),
+      buckets,
+    };
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private chooseBucketSize(duration: number): number {
+    for (const size of BUCKET_SIZES_SECONDS) {
+      if (duration / size <= MAX_BUCKETS) {
+        return size;
+      }
+    }
+    return Math.ceil(duration / MAX_BUCKETS);
+  }
+
+  private addAmount(bucket: ActivityBucket, amount: string | undefined): void {
+    const parsed = amount ? this.ledger.parseAmount(amount) : null;
+    if (!parsed) return;
+
+    const existing = bucket.superChatTotals.find((total) => total.currency === parsed.currency);
+    if (existing) {
+      existing.total += parsed.value;
+    } else {
+      bucket.superChatTotals.push({ currency: parsed.currency, total: parsed.value });
+    }
+  }
+
+  private markEmojiBursts(buckets: ActivityBucket[]): void {
+    if (buckets.length === 0) return;
+
+    const mean = buckets.reduce((sum, bucket) => sum + bucket.emojiCount, 0) / buckets.length;
+    const variance = buckets.reduce((sum, bucket) => sum + (bucket.emojiCount - mean) ** 2, 0) / buckets.length;
+    const threshold = Math.max(MIN_BURST_EMOJIS, mean + BURST_STDDEV_FACTOR * Math.sqrt(variance));
+
+    for (const bucket of buckets) {
+      bucket.isEmojiBurst = bucket.emojiCount >= threshold;
+    }
+  }
+}
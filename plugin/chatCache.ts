@@ -0,0 +1,208 @@
+/**
+ * Chat Cache - Persists fetched archived chat on disk, keyed by video ID
+ * Files live directly in the plugin's data directory (file.write does not create subdirectories):
+ *   @data/chat-cache-index.json     → entry metadata (size, last access) for LRU eviction
+ *   @data/chat-cache-<videoId>.json → cached chat ({ messages, banners }; older entries are a bare ChatMessage[])
+ */
+
+import type { ChatBanner, ChatMessage } from "./schemas";
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface IINAFile {
+  exists(path: string): boolean;
+  read(path: string, options?: Record<string, never>): string | undefined;
+  write(path: string, content: string): void;
+  delete(path: string): void;
+}
+
+interface CacheEntry {
+  videoId: string;
+  size: number; // Approximate size in bytes (JSON string length)
+  messageCount: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface CachedChat {
+  messages: ChatMessage[];
+  banners: ChatBanner[];
+}
+
+interface CacheIndex {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+const CACHE_PREFIX = "@data/chat-cache";
+const INDEX_PATH = `${CACHE_PREFIX}-index.json`;
+const INDEX_VERSION = 1;
+
+/**
+ * Chat Cache class
+ * Stores archived chat per video with a total size limit (least recently used entries are evicted first)
+ */
+export class ChatCache {
+  private file: IINAFile;
+  private logger: IINAConsole;
+  private index: CacheIndex | null = null;
+
+  constructor(file: IINAFile, logger: IINAConsole) {
+    this.file = file;
+    this.logger = logger;
+  }
+
+  /**
+   * Get cached chat for a video, or null if not cached
+   */
+  get(videoId: string): CachedChat | null {
+    const index = this.loadIndex();
+    const entry = index.entries[videoId];
+    if (!entry) {
+      return null;
+    }
+
+    const content = this.file.read(this.entryPath(videoId));
+    if (content === undefined) {
+      delete index.entries[videoId];
+      this.saveIndex();
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(content) as CachedChat | ChatMessage[];
+      const chat = Array.isArray(parsed) ? { messages: parsed, banners: [] } : parsed;
+      entry.lastAccessedAt = Date.now();
+      this.saveIndex();
+      this.logger.log(`[ChatCache] Hit for ${videoId}: ${chat.messages.length} messages`);
+      return chat;
+    } catch {
+      this.logger.warn(`[ChatCache] Corrupted entry for ${videoId}, removing`);
+      this.remove(videoId);
+      return null;
+    }
+  }
+
+  /**
+   * Store chat for a video, evicting old entries to stay within the size limit
+   */
+  set(videoId: string, chat: CachedChat, maxSizeBytes: number): void {
+    const { messages } = chat;
+    const content = JSON.stringify(chat);
+    const size = content.length;
+
+    if (size > maxSizeBytes) {
+      this.logger.log(`[ChatCache] Skipping ${videoId}: ${size} bytes exceeds cache limit`);
+      return;
+    }
+
+    const index = this.loadIndex();
+    delete index.entries[videoId];
+    this.evict(maxSizeBytes - size);
+
+    try {
+      this.file.write(this.entryPath(videoId), content);
+    } catch (error) {
+      this.logger.error(`[ChatCache] Failed to write ${videoId}: ${error}`);
+      return;
+    }
+
+    const now = Date.now();
+    index.entries[videoId] = { videoId, size, messageCount: messages.length, createdAt: now, lastAccessedAt: now };
+    this.saveIndex();
+    this.logger.log(`[ChatCache] Stored ${videoId}: ${messages.length} messages, ${size} bytes`);
+  }
+
+  /**
+   * Remove a single video from the cache
+   */
+  remove(videoId: string): void {
+    const index = this.loadIndex();
+    this.deleteFile(this.entryPath(videoId));
+    delete index.entries[videoId];
+    this.saveIndex();
+  }
+
+  /**
+   * Remove all cached chat
+   */
+  clear(): void {
+    const index = this.loadIndex();
+    for (const videoId of Object.keys(index.entries)) {
+      this.deleteFile(this.entryPath(videoId));
+    }
+    index.entries = {};
+    this.saveIndex();
+    this.logger.log("[ChatCache] Cleared");
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  /**
+   * Evict least recently used entries until the total size fits in the given budget
+   */
+  private evict(budgetBytes: number): void {
+    const index = this.loadIndex();
+    const entries = Object.values(index.entries).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (totalSize <= budgetBytes) break;
+      this.deleteFile(this.entryPath(entry.videoId));
+      delete index.entries[entry.videoId];
+      totalSize -= entry.size;
+      this.logger.log(`[ChatCache] Evicted ${entry.videoId}`);
+    }
+  }
+
+  private loadIndex(): CacheIndex {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = { version: INDEX_VERSION, entries: {} };
+
+    if (this.file.exists(INDEX_PATH)) {
+      try {
+        const parsed = JSON.parse(this.file.read(INDEX_PATH) || "{}") as Partial<CacheIndex>;
+        if (parsed.version === INDEX_VERSION && parsed.entries) {
+          this.index.entries = parsed.entries;
+        }
+      } catch {
+        this.logger.warn("[ChatCache] Could not read cache index, starting fresh");
+      }
+    }
+
+    return this.index;
+  }
+
+  private saveIndex(): void {
+    try {
+      this.file.write(INDEX_PATH, JSON.stringify(this.loadIndex()));
+    } catch (error) {
+      this.logger.error(`[ChatCache] Failed to write index: ${error}`);
+    }
+  }
+
+  private deleteFile(path: string): void {
+    try {
+      if (this.file.exists(path)) {
+        this.file.delete(path);
+      }
+    } catch (error) {
+      this.logger.warn(`[ChatCache] Failed to delete ${path}: ${error}`);
+    }
+  }
+
+  private entryPath(videoId: string): string {
+    // Video IDs are [A-Za-z0-9_-], but sanitize anyway since they come from URLs
+    return `${CACHE_PREFIX}-${videoId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Chat Exporter - Writes chat messages to disk as JSON, CSV, or a readable transcript
+ */
+
+import type { ChatMessage } from "./schemas";
+import type { SuperChatLedgerSummary } from "./superChatLedger";
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface IINAFile {
+  write(path: string, content: string): void;
+}
+
+export type ExportFormat = "json" | "csv" | "text";
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  text: "txt",
+};
+
+export type ExportResult = { success: true; path: string; messageCount: number } | { success: false; error: string };
+
+const CSV_HEADER = ["timestamp", "author", "channel_id", "type", "amount", "message"];
+const LEDGER_CSV_HEADER = ["timestamp", "author", "channel_id", "type", "amount", "currency", "value", "message"];
+
+/**
+ * Chat Exporter class
+ */
+export class ChatExporter {
+  private file: IINAFile;
+  private logger: IINAConsole;
+
+  constructor(file: IINAFile, logger: IINAConsole) {
+    this.file = file;
+    this.logger = logger;
+  }
+
+  /**
+   * Format messages and write them to the given path
+   */
+  export(messages: ChatMessage[], format: ExportFormat, path: string): ExportResult {
+    try {
+      this.file.write(path, this.format(messages, format));
+      this.logger.log(`[ChatExporter] Exported ${messages.length} messages to ${path}`);
+      return { success: true, path, messageCount: messages.length };
+    } catch (error) {
+      this.logger.error(`[ChatExporter] Failed to write ${path}: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Write the Super Chat ledger as CSV, with amounts split into currency and value
+   */
+  exportSuperChatLedger(ledger: SuperChatLedgerSummary, path: string): ExportResult {
+    const rows = [LEDGER_CSV_HEADER.join(",")];
+
+    for (const entry of ledger.entries) {
+      const fields = [
+        entry.timestampText ?? this.getTimeText({ timestamp: entry.timestamp }),
+        entry.author,
+        entry.authorChannelId ?? "",
+        entry.type,
+        entry.amount,
+        entry.currency ?? "",
+        entry.value === null ? "" : String(entry.value),
+        entry.message,
+      ];
+      rows.push(fields.map((field) => this.escapeCsvField(field)).join(","));
+    }
+
+    try {
+      this.file.write(path, `${rows.join("\r\n")}\r\n`);
+      this.logger.log(`[ChatExporter] Exported ${ledger.entries.length} Super Chats to ${path}`);
+      return { success: true, path, messageCount: ledger.entries.length };
+    } catch (error) {
+      this.logger.error(`[ChatExporter] Failed to write ${path}: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Format messages in the given export format
+   */
+  format(messages: ChatMessage[], format: ExportFormat): string {
+    switch (format) {
+      case "json":
+        return JSON.stringify(messages, null, 2);
+      case "csv":
+        return this.formatCsv(messages);
+      case "text":
+        return this.formatText(messages);
+    }
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private formatCsv(messages: ChatMessage[]): string {
+    const rows = [CSV_HEADER.join(",")];
+
+    for (const msg of messages) {
+      const fields = [
+        this.getTimeText(msg),
+        msg.author,
+        msg.authorChannelId ?? "",
+        msg.type,
+        msg.amount ?? "",
+        msg.message,
+      ];
+      rows.push(fields.map((field) => this.escapeCsvField(field)).join(","));
+    }
+
+    return `${rows.join("\r\n")}\r\n`;
+  }
+
+  private formatText(messages: ChatMessage[]): string {
+    const lines = messages.map((msg) => {
+      const time = this.getTimeText(msg);
+      switch (msg.type) {
+        case "superchat":
+        case "supersticker":
+          return `[${time}] ${msg.author} (${msg.amount ?? "Super Chat"}): ${msg.message}`;
+        case "membership":
+        case "gift":
+          return `[${time}] ${msg.author} [${msg.type}]: ${msg.message}`;
+        case "system":
+          return `[${time}] * ${msg.message}`;
+        default:
+          return `[${time}] ${msg.author}: ${msg.message}`;
+      }
+    });
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * Use the displayed timestamp (video offset for archives, wall clock for live),
+   * falling back to the video offset in seconds
+   */
+  private getTimeText(msg: Pick<ChatMessage, "timestamp" | "timestampText">): string {
+    if (msg.timestampText) {
+      return msg.timestampText;
+    }
+
+    const totalSeconds = Math.max(0, Math.floor(msg.timestamp));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const mmss = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+  }
+
+  private escapeCsvField(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Chat Overlay - Renders chat as an ASS subtitle file and shows it as mpv's secondary subtitle track
+ * Two layouts are supported:
+ * - danmaku: Niconico-style messages scrolling right to left across the video
+ * - overlay: the latest messages stacked in the bottom-left corner
+ */
+
+import type { ChatMessage } from "./schemas";
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface IINAFile {
+  write(path: string, content: string): void;
+}
+
+interface IINAUtils {
+  resolvePath(path: string): string;
+}
+
+interface IINAMpv {
+  getNative<T>(name: string): T;
+  set(name: string, value: unknown): void;
+  command(name: string, args: string[]): void;
+}
+
+interface MpvTrack {
+  id: number;
+  type: string;
+  "external-filename"?: string;
+}
+
+export type OverlayMode = "off" | "danmaku" | "overlay";
+
+export interface OverlayOptions {
+  mode: Exclude<OverlayMode, "off">;
+  fontSize: number; // In script pixels (1080p)
+  durationSeconds: number; // How long each message stays on screen
+  maxLines: number; // Overlay layout only
+}
+
+// A message and the player position (seconds) where it should appear
+export interface OverlayEntry {
+  message: ChatMessage;
+  time: number;
+}
+
+const OVERLAY_PATH = "@tmp/youtube-chat-overlay.ass";
+const TRACK_TITLE = "YouTube Chat";
+
+// ASS script resolution; libass scales it to the video
+const PLAY_RES_X = 1920;
+const PLAY_RES_Y = 1080;
+// Danmaku lanes use the top part of the screen to keep regular subtitles readable
+const DANMAKU_AREA_RATIO = 0.8;
+
+const DEFAULT_COLORS: Partial<Record<ChatMessage["type"], string>> = {
+  superchat: "#ffca28",
+  supersticker: "#ffca28",
+  membership: "#0f9d58",
+  gift: "#ce93d8",
+  system: "#9ca3af",
+};
+
+/**
+ * Chat Overlay class
+ * Owns the generated subtitle file and the mpv track it is loaded as
+ */
+export class ChatOverlay {
+  private file: IINAFile;
+  private utils: IINAUtils;
+  private mpv: IINAMpv;
+  private logger: IINAConsole;
+  private trackId: number | null = null;
+
+  constructor(file: IINAFile, utils: IINAUtils, mpv: IINAMpv, logger: IINAConsole) {
+    this.file = file;
+    this.utils = utils;
+    this.mpv = mpv;
+    this.logger = logger;
+  }
+
+  /**
+   * Regenerate the subtitle file and (re)load it as the secondary subtitle track
+   */
+  update(entries: OverlayEntry[], options: OverlayOptions): void {
+    const content = this.buildAss(entries, options);
+
+    try {
+      this.file.write(OVERLAY_PATH, content);
+    } catch (error) {
+      this.logger.error(`[ChatOverlay] Failed to write subtitle file: ${error}`);
+      return;
+    }
+
+    const path = this.utils.resolvePath(OVERLAY_PATH);
+
+    if (this.trackId === null) {
+      this.mpv.command("sub-add", [path, "auto", TRACK_TITLE]);
+    } else {
+      // sub-reload re-adds the track, so its ID may change
+      this.mpv.command("sub-reload", [String(this.trackId)]);
+    }
+
+    this.trackId = this.findTrackId(path);
+    if (this.trackId === null) {
+      this.logger.warn("[ChatOverlay] Could not find loaded subtitle track");
+      return;
+    }
+
+    // Secondary subtitles are stripped of ASS styling by default, which breaks the layout
+    this.mpv.set("secondary-sub-ass-override", "no");
+    this.mpv.set("secondary-sid", this.trackId);
+  }
+
+  /**
+   * Unload the overlay track from the player
+   */
+  remove(): void {
+    if (this.trackId !== null) {
+      this.mpv.command("sub-remove", [String(this.trackId)]);
+      this.trackId = null;
+    }
+  }
+
+  /**
+   * Forget the current track (call when a new file is loaded, since mpv drops its tracks)
+   */
+  reset(): void {
+    this.trackId = null;
+  }
+
+  // ============================================================
+  // ASS Generation
+  // ============================================================
+
+  private buildAss(entries: OverlayEntry[], options: OverlayOptions): string {
+    const sorted = [...entries].sort((a, b) => a.time - b.time);
+    const events =
+      options.mode === "danmaku" ? this.buildDanmakuEvents(sorted, options) : this.buildStackEvents(sorted, options);
+
+    const outline = Math.max(1, Math.round(options.fontSize / 16));
+
+    return [
+      "[Script Info]",
+      "ScriptType: v4.00+",
+      `PlayResX: ${PLAY_RES_X}`,
+      `PlayResY: ${PLAY_RES_Y}`,
+      "WrapStyle: 2",
+      "ScaledBorderAndShadow: yes",
+      "",
+      "[V4+ Styles]",
+      "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+      `Style: Danmaku,sans-serif,${options.fontSize},&H00FFFFFF,&H00FFFFFF,&H00000000,&H00000000,1,0,0,0,100,100,0,0,1,${outline},0,7,0,0,0,1`,
+      `Style: Stack,sans-serif,${options.fontSize},&H00FFFFFF,&H00FFFFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,${outline},0,1,40,40,40,1`,
+      "",
+      "[Events]",
+      "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+      ...events,
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * Scrolling messages, assigned to lanes so that they don't overlap
+   */
+  private buildDanmakuEvents(entries: OverlayEntry[], options: OverlayOptions): string[] {
+    const events: string[] = [];
+    const duration = options.durationSeconds;
+    const laneHeight = Math.round(options.fontSize * 1.25);
+    const laneCount = Math.max(1, Math.floor((PLAY_RES_Y * DANMAKU_AREA_RATIO) / laneHeight));
+
+    // Per lane: when the previous message's tail has fully entered the screen, and when it leaves
+    const lanes = Array.from({ length: laneCount }, () => ({
+      tailEnteredAt: Number.NEGATIVE_INFINITY,
+      exitsAt: Number.NEGATIVE_INFINITY,
+    }));
+
+    for (const { message, time } of entries) {
+      const text = this.getDanmakuText(message);
+      if (!text) continue;
+
+      const width = this.estimateTextWidth(text, options.fontSize);
+      const speed = (PLAY_RES_X + width) / duration;
+
+      // A lane is free if the previous message has entered fully and the new one can't catch up with it
+      let laneIndex = lanes.findIndex(
+        (lane) => time >= lane.tailEnteredAt && time + PLAY_RES_X / speed >= lane.exitsAt,
+      );
+      if (laneIndex === -1) {
+        // All lanes busy: reuse the one that frees up first
+        laneIndex = lanes.reduce((best, lane, i) => (lane.tailEnteredAt < lanes[best].tailEnteredAt ? i : best), 0);
+      }
+
+      lanes[laneIndex] = { tailEnteredAt: time + width / speed, exitsAt: time + duration };
+
+      const y = laneIndex * laneHeight;
+      const color = this.getMessageColor(message);
+      const override = `{\\move(${PLAY_RES_X},${y},${-Math.ceil(width)},${y})${color ? `\\c${color}` : ""}}`;
+      events.push(this.dialogue(time, time + duration, "Danmaku", `${override}${this.escapeText(text)}`));
+    }
+
+    return events;
+  }
+
+  /**
+   * Latest messages stacked in the corner; a new event is emitted every time the visible set changes
+   */
+  private buildStackEvents(entries: OverlayEntry[], options: OverlayOptions): string[] {
+    const events: string[] = [];
+    const duration = options.durationSeconds;
+    const maxLines = Math.max(1, options.maxLines);
+
+    for (let i = 0; i < entries.length; i++) {
+      const start = entries[i].time;
+      // Messages arriving at the same time are shown together
+      if (i + 1 < entries.length && entries[i + 1].time === start) continue;
+
+      const nextTime = i + 1 < entries.length ? entries[i + 1].time : Number.POSITIVE_INFINITY;
+      const end = Math.min(nextTime, start + duration);
+
+      const visible: string[] = [];
+      for (let j = i; j >= 0 && visible.length < maxLines; j--) {
+        if (entries[j].time <= start - duration) break;
+        const line = this.getStackLine(entries[j].message);
+        if (line) visible.unshift(line);
+      }
+
+      if (visible.length > 0) {
+        events.push(this.dialogue(start, end, "Stack", visible.join("\\N")));
+      }
+    }
+
+    return events;
+  }
+
+  private getDanmakuText(message: ChatMessage): string {
+    const text = message.message.replace(/\s+/g, " ").trim();
+    if (message.amount) {
+      return `${message.amount} ${text}`;
+    }
+    return text;
+  }
+
+  private getStackLine(message: ChatMessage): string {
+    const text = message.message.replace(/\s+/g, " ").trim();
+    if (!text) return "";
+
+    const color = this.getMessageColor(message);
+    const author = `{\\c&HAAAAAA&}${this.escapeText(message.author)}:`;
+    const amount = message.amount ? ` ${this.escapeText(message.amount)}` : "";
+    const body = `{\\c${color ?? "&HFFFFFF&"}}${amount} ${this.escapeText(text)}`;
+    return `${author}${body}`;
+  }
+
+  private getMessageColor(message: ChatMessage): string | null {
+    const hex =
+      message.type === "superchat" || message.type === "supersticker"
+        ? (message.colors?.bodyBackgroundColor ?? DEFAULT_COLORS[message.type])
+        : DEFAULT_COLORS[message.type];
+    return hex ? this.toAssColor(hex) : null;
+  }
+
+  /**
+   * Convert "#rrggbb" or "#rrggbbaa" to ASS "&HBBGGRR&"
+   */
+  private toAssColor(hex: string): string | null {
+    const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i);
+    if (!match) return null;
+    const [, r, g, b] = match;
+    return `&H${b}${g}${r}&`.toUpperCase();
+  }
+
+  /**
+   * Rough text width: full-width characters take one em, others half an em
+   */
+  private estimateTextWidth(text: string, fontSize: number): number {
+    let width = 0;
+    for (const char of text) {
+      width += (char.codePointAt(0) ?? 0) > 0xff ? fontSize : fontSize * 0.55;
+    }
+    return width;
+  }
+
+  /**
+   * Escape characters that libass would interpret as override tags or line breaks
+   */
+  private escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\u200b").replace(/\{/g, "｛").replace(/\}/g, "｝");
+  }
+
+  private dialogue(start: number, end: number, style: string, text: string): string {
+    return `Dialogue: 0,${this.formatTime(start)},${this.formatTime(end)},${style},,0,0,0,,${text}`;
+  }
+
+  /**
+   * Format seconds as ASS time (H:MM:SS.cc)
+   */
+  private formatTime(seconds: number): string {
+    const totalCentiseconds = Math.max(0, Math.round(seconds * 100));
+    const cs = totalCentiseconds % 100;
+    const totalSeconds = Math.floor(totalCentiseconds / 100);
+    const s = totalSeconds % 60;
+    const m = Math.floor(totalSeconds / 60) % 60;
+    const h = Math.floor(totalSeconds / 3600);
+    return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}.${cs.toString().padStart(2, "0")}`;
+  }
+
+  private findTrackId(path: string): number | null {
+    try {
+      const tracks = this.mpv.getNative<MpvTrack[]>("track-list") ?? [];
+      const track = tracks.find((t) => t.type === "sub" && t["external-filename"] === path);
+      return track?.id ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
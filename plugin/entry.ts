@@ -1,27 +1,86 @@
 // IINA Plugin Entry Point for YouTube Chat
 // This file runs in IINA's JavaScriptCore context
 
-import { ArchivedChatFetcher } from "./archivedChatFetcher";
-import { LiveChatFetcher, type LiveChatMetadata } from "./liveChatFetcher";
-import type { ChatMessage } from "./schemas";
+import { ArchivedChatFetcher, type ChatGap, DEFAULT_MAX_CONCURRENT_REQUESTS } from "./archivedChatFetcher";
+import { BannerParser } from "./bannerParser";
+import { ChatActivityAggregator } from "./chatActivity";
+import { ChatCache } from "./chatCache";
+import { ChatExporter, EXPORT_FILE_EXTENSIONS, type ExportFormat } from "./chatExporter";
+import { ChatOverlay, type OverlayEntry, type OverlayMode } from "./chatOverlay";
+import { type ChatItemUpdate, LiveChatFetcher, type LiveChatMetadata } from "./liveChatFetcher";
+import { LocalChatLoader } from "./localChatLoader";
+import {
+  type ChatBanner,
+  type ChatMessage,
+  type DisplayFilters,
+  DisplayFiltersSchema,
+  type MutedAuthor,
+  SeekToRequestSchema,
+  UpdateFiltersRequestSchema,
+} from "./schemas";
+import { SuperChatLedger } from "./superChatLedger";
+import { YouTubeCookies } from "./youtubeCookies";
+import { YtdlpResolver } from "./ytdlpResolver";
 
 // Destructure IINA API modules
-const { event, sidebar, standaloneWindow, menu, core, console: logger, utils, preferences, http } = iina;
+const { event, sidebar, standaloneWindow, menu, core, mpv, console: logger, utils, preferences, http, file } = iina;
 
 // Initialize chat fetchers
-const liveChatFetcher = new LiveChatFetcher(utils, logger);
-const archivedChatFetcher = new ArchivedChatFetcher(utils, http, logger);
+const ytdlpResolver = new YtdlpResolver(utils, logger, () => getPreferences().ytdlpPath);
+const youtubeCookies = new YouTubeCookies(
+  file,
+  utils,
+  logger,
+  () => getPreferences().cookiesFile,
+  (status) => sendToAll("auth-status", status),
+);
+const liveChatFetcher = new LiveChatFetcher(utils, file, ytdlpResolver, youtubeCookies, logger);
+const archivedChatFetcher = new ArchivedChatFetcher(
+  utils,
+  http,
+  youtubeCookies,
+  logger,
+  () => getPreferences().maxConcurrentRequests,
+);
+const localChatLoader = new LocalChatLoader(file, archivedChatFetcher, logger);
+const chatCache = new ChatCache(file, logger);
+const chatExporter = new ChatExporter(file, logger);
+const chatOverlay = new ChatOverlay(file, utils, mpv, logger);
+const superChatLedger = new SuperChatLedger();
+const chatActivityAggregator = new ChatActivityAggregator(superChatLedger);
 
 // Plugin state
 let currentVideoUrl: string | null = null;
+let currentLocalChatPath: string | null = null;
 let chatData: ChatMessage[] = [];
+// Pinned messages and polls (live: currently shown, archived: with start/end offsets)
+let chatBanners: ChatBanner[] = [];
+// Ranges of an archived replay whose chat could not be fetched (retry to fill them)
+let chatGaps: ChatGap[] = [];
 let isStandaloneWindowOpen = false;
 let isStandaloneWindowReady = false;
+let isFetchingArchivedChat = false;
+// Incremented when the video changes or loading is cancelled; async work started under an older
+// generation stops at its next await and discards its results
+let loadGeneration = 0;
 
 // Live chat state
+type LiveConnectionState = "connected" | "reconnecting" | "ended";
 let isLiveStream = false;
+let liveVideoId: string | null = null;
 let liveChatMetadata: LiveChatMetadata | null = null;
 let liveChatPollingTimer: ReturnType<typeof setTimeout> | null = null;
+// Connection state machine: connected → reconnecting (with backoff) → connected, or → ended
+let liveConnectionState: LiveConnectionState = "connected";
+let liveFailureCount = 0;
+// Stream offset minus player position (seconds), so live chat can follow playback behind the live edge
+// Kept after the stream switches to its replay, since the player keeps playing the same stream
+let liveOffsetSeconds: number | null = null;
+
+// Chat overlay state
+let overlayUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+// Player position (seconds) at which each live message arrived, used to place it in the overlay
+const liveArrivalPositions = new Map<string, number>();
 
 /**
  * Get current preferences
@@ -34,8 +93,89 @@ const getPreferences = () => ({
   showAuthorPhoto: (preferences.get("showAuthorPhoto") as boolean | undefined) ?? true,
   autoOpenChatWindow: (preferences.get("autoOpenChatWindow") as boolean | undefined) ?? true,
   fontScale: (preferences.get("fontScale") as number | undefined) ?? 100,
+  enableChatCache: (preferences.get("enableChatCache") as boolean | undefined) ?? true,
+  chatCacheSizeMB: (preferences.get("chatCacheSizeMB") as number | undefined) ?? 200,
+  overlayMode: (preferences.get("overlayMode") as OverlayMode | undefined) ?? "off",
+  overlayFontSize: (preferences.get("overlayFontSize") as number | undefined) ?? 48,
+  overlayDuration: (preferences.get("overlayDuration") as number | undefined) ?? 8,
+  overlayMaxLines: (preferences.get("overlayMaxLines") as number | undefined) ?? 6,
+  filterKeywords: (preferences.get("filterKeywords") as string | undefined) ?? "",
+  filterRegexes: (preferences.get("filterRegexes") as string | undefined) ?? "",
+  mutedAuthors: (preferences.get("mutedAuthors") as string | undefined) ?? "",
+  deletedMessages: (preferences.get("deletedMessages") as "strike" | "remove" | undefined) ?? "strike",
+  ytdlpPath: (preferences.get("ytdlpPath") as string | undefined) ?? "",
+  cookiesFile: (preferences.get("cookiesFile") as string | undefined) ?? "",
+  maxConcurrentRequests:
+    (preferences.get("maxConcurrentRequests") as number | undefined) ?? DEFAULT_MAX_CONCURRENT_REQUESTS,
 });
 
+/**
+ * Split a multi-line preference into trimmed, non-empty lines
+ */
+const splitLines = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+/**
+ * Get chat filters from preferences
+ * Muted authors are stored one per line as "<channelId> <display name>"
+ */
+const getChatFilters = () => {
+  const prefs = getPreferences();
+  const mutedAuthors: MutedAuthor[] = splitLines(prefs.mutedAuthors).map((line) => {
+    const spaceIndex = line.indexOf(" ");
+    return spaceIndex === -1
+      ? { channelId: line, name: line }
+      : { channelId: line.slice(0, spaceIndex), name: line.slice(spaceIndex + 1).trim() };
+  });
+
+  return {
+    keywords: splitLines(prefs.filterKeywords),
+    regexes: splitLines(prefs.filterRegexes),
+    mutedAuthors,
+  };
+};
+
+// Display filters are remembered separately for the sidebar and the standalone window
+type WebviewTarget = "sidebar" | "window";
+
+const DISPLAY_FILTERS_PREF_KEYS: Record<WebviewTarget, string> = {
+  sidebar: "sidebarDisplayFilters",
+  window: "windowDisplayFilters",
+};
+
+/**
+ * Get the message type / badge filters saved for a webview
+ */
+const getDisplayFilters = (target: WebviewTarget): DisplayFilters => {
+  const stored = preferences.get(DISPLAY_FILTERS_PREF_KEYS[target]) as string | undefined;
+  if (stored) {
+    try {
+      const parseResult = DisplayFiltersSchema.safeParse(JSON.parse(stored));
+      if (parseResult.success) {
+        return parseResult.data;
+      }
+    } catch {
+      logger.warn(`[getDisplayFilters] Ignoring invalid ${DISPLAY_FILTERS_PREF_KEYS[target]} preference`);
+    }
+  }
+  return { hiddenTypes: [], badges: [] };
+};
+
+/**
+ * Clear the chat cache if requested from the preferences page
+ * The preferences page cannot call into the plugin directly, so it sets a flag that is checked here
+ */
+const applyPendingCacheClear = (): void => {
+  if (preferences.get("clearChatCacheRequested") === true) {
+    chatCache.clear();
+    preferences.set("clearChatCacheRequested", false);
+    preferences.sync();
+  }
+};
+
 /**
  * Send message to sidebar
  */
@@ -94,9 +234,24 @@ const sendPreferencesTo = (sendFn: (name: string, data: unknown) => void): void
     showAuthorName: prefs.showAuthorName,
     showAuthorPhoto: prefs.showAuthorPhoto,
     fontScale: prefs.fontScale,
+    deletedMessages: prefs.deletedMessages,
   });
 };
 
+/**
+ * Send chat filters to a specific webview
+ */
+const sendFiltersTo = (sendFn: (name: string, data: unknown) => void): void => {
+  sendFn("filters-update", getChatFilters());
+};
+
+/**
+ * Send a webview's saved display filters to it
+ */
+const sendDisplayFiltersTo = (target: WebviewTarget, sendFn: (name: string, data: unknown) => void): void => {
+  sendFn("display-filters-update", getDisplayFilters(target));
+};
+
 /**
  * Send chat data to a specific webview (sidebar or standalone window)
  */
@@ -118,13 +273,194 @@ const sendChatDataTo = (sendFn: (name: string, data: unknown) => void): void =>
     });
   }
 
-  sendFn("chat-data-complete", { totalMessages: chatData.length });
+  sendFn("chat-data-complete", { totalMessages: chatData.length, isLive: isLiveStream });
+
+  // The activity timeline only makes sense for archived chat, where timestamps are video offsets
+  if (!isLiveStream) {
+    sendFn("chat-activity", chatActivityAggregator.aggregate(chatData, core.status.duration ?? 0));
+  }
+
+  sendFn("superchat-ledger", superChatLedger.build(chatData));
+  sendFn("chat-banners", { banners: chatBanners });
+  sendFn("chat-gaps", { gaps: chatGaps });
+};
+
+// ============================================================
+// Chat Overlay Functions
+// ============================================================
+
+// Live overlay only keeps recent messages, since it is regenerated on every update
+const LIVE_OVERLAY_WINDOW_SECONDS = 60;
+const OVERLAY_UPDATE_DELAY_MS = 3000;
+
+/**
+ * Build overlay entries from chatData
+ * Archived messages use their video offset, live messages the position at which they arrived
+ */
+const getOverlayEntries = (): OverlayEntry[] => {
+  if (!isLiveStream) {
+    // Replays of a stream watched live are in stream offsets, not player positions
+    const offset = liveOffsetSeconds ?? 0;
+    return chatData.map((message) => ({ message, time: message.timestamp - offset }));
+  }
+
+  const minTime = (core.status.position ?? 0) - LIVE_OVERLAY_WINDOW_SECONDS;
+  const entries: OverlayEntry[] = [];
+  for (const message of chatData) {
+    const time = liveArrivalPositions.get(message.id);
+    if (time !== undefined && time >= minTime && !message.deleted) {
+      entries.push({ message, time });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Regenerate the chat overlay subtitle track (or remove it if disabled)
+ */
+const updateChatOverlay = (): void => {
+  if (overlayUpdateTimer) {
+    clearTimeout(overlayUpdateTimer);
+    overlayUpdateTimer = null;
+  }
+
+  const prefs = getPreferences();
+  if (prefs.overlayMode === "off") {
+    chatOverlay.remove();
+    return;
+  }
+
+  if (chatData.length === 0) {
+    return;
+  }
+
+  chatOverlay.update(getOverlayEntries(), {
+    mode: prefs.overlayMode,
+    fontSize: prefs.overlayFontSize,
+    durationSeconds: prefs.overlayDuration,
+    maxLines: prefs.overlayMaxLines,
+  });
+};
+
+/**
+ * Coalesce frequent chat updates (live polling, partial fetches) into one overlay regeneration
+ */
+const scheduleOverlayUpdate = (): void => {
+  if (overlayUpdateTimer || getPreferences().overlayMode === "off") {
+    return;
+  }
+  overlayUpdateTimer = setTimeout(updateChatOverlay, OVERLAY_UPDATE_DELAY_MS);
+};
+
+/**
+ * Drop overlay state for the previous file (mpv removes external tracks on file change)
+ */
+const resetChatOverlay = (): void => {
+  if (overlayUpdateTimer) {
+    clearTimeout(overlayUpdateTimer);
+    overlayUpdateTimer = null;
+  }
+  chatOverlay.reset();
+  liveArrivalPositions.clear();
+};
+
+// ============================================================
+// Preference Watching
+// ============================================================
+
+// IINA has no preference change event, so the preferences page's values are polled
+const PREFERENCE_POLL_INTERVAL_MS = 1000;
+
+let preferencePollTimer: ReturnType<typeof setInterval> | null = null;
+let lastOverlayPreferences = "";
+let lastFilterPreferences = "";
+
+/**
+ * Overlay preferences as a comparable string
+ */
+const getOverlayPreferencesKey = (): string => {
+  const prefs = getPreferences();
+  return JSON.stringify([prefs.overlayMode, prefs.overlayFontSize, prefs.overlayDuration, prefs.overlayMaxLines]);
+};
+
+/**
+ * Filter preferences as a comparable string
+ */
+const getFilterPreferencesKey = (): string => {
+  const prefs = getPreferences();
+  return JSON.stringify([prefs.filterKeywords, prefs.filterRegexes, prefs.mutedAuthors]);
+};
+
+/**
+ * Apply preferences changed on the preferences page without waiting for the next update
+ * Turning the overlay off removes its track right away, and filter edits reach open webviews
+ */
+const checkPreferenceChanges = (): void => {
+  const overlayPreferences = getOverlayPreferencesKey();
+  if (overlayPreferences !== lastOverlayPreferences) {
+    lastOverlayPreferences = overlayPreferences;
+    updateChatOverlay();
+  }
+
+  const filterPreferences = getFilterPreferencesKey();
+  if (filterPreferences !== lastFilterPreferences) {
+    lastFilterPreferences = filterPreferences;
+    sendFiltersTo(sendToAll);
+  }
+};
+
+/**
+ * Start polling preferences for the player window's lifetime
+ */
+const startPreferenceWatch = (): void => {
+  lastOverlayPreferences = getOverlayPreferencesKey();
+  lastFilterPreferences = getFilterPreferencesKey();
+  if (!preferencePollTimer) {
+    preferencePollTimer = setInterval(checkPreferenceChanges, PREFERENCE_POLL_INTERVAL_MS);
+  }
+};
+
+const stopPreferenceWatch = (): void => {
+  if (preferencePollTimer) {
+    clearInterval(preferencePollTimer);
+    preferencePollTimer = null;
+  }
+};
+
+// ============================================================
+// Cancellation
+// ============================================================
+
+/**
+ * Whether work started under this generation has been superseded
+ */
+const isStale = (generation: number): boolean => generation !== loadGeneration;
+
+/**
+ * Abandon in-flight work for the current video (chat download, live polling, replay retries)
+ * Returns the new generation for work started afterwards
+ */
+const cancelPendingWork = (): number => {
+  loadGeneration++;
+  archivedChatFetcher.cancel();
+  stopLiveChatPolling();
+  isFetchingArchivedChat = false;
+  return loadGeneration;
 };
 
 // ============================================================
 // Live Chat Functions
 // ============================================================
 
+// Reconnect backoff: 2s, 4s, 8s, ... capped at 1 minute
+const LIVE_RETRY_BASE_MS = 2000;
+const LIVE_RETRY_MAX_MS = 60_000;
+// Failed polls in a row before the continuation is assumed stale and metadata is fetched again
+const LIVE_FAILURES_BEFORE_METADATA_REFRESH = 2;
+// YouTube needs a while after a stream ends before its chat replay is available
+const REPLAY_RETRY_DELAY_MS = 60_000;
+const REPLAY_MAX_ATTEMPTS = 10;
+
 /**
  * Stop live chat polling
  */
@@ -134,7 +470,225 @@ const stopLiveChatPolling = (): void => {
     liveChatPollingTimer = null;
   }
   isLiveStream = false;
+  liveVideoId = null;
   liveChatMetadata = null;
+  liveConnectionState = "connected";
+  liveFailureCount = 0;
+};
+
+/**
+ * Whether the player can seek to live chat messages: needs DVR, and the broadcast start for stream offsets
+ */
+const canSeekLiveChat = (): boolean => liveOffsetSeconds !== null && liveChatMetadata?.isDvrEnabled === true;
+
+/**
+ * Live connection status for webviews (null when not watching a live stream)
+ */
+const getLiveStatus = () =>
+  isLiveStream ? { state: liveConnectionState, attempt: liveFailureCount, seekable: canSeekLiveChat() } : null;
+
+/**
+ * Move the live connection to a new state and tell the webviews
+ */
+const setLiveConnectionState = (state: LiveConnectionState): void => {
+  const changed = state !== liveConnectionState;
+  liveConnectionState = state;
+  // Reconnect attempts are reported every time so the UI can show the attempt count
+  if (changed || state === "reconnecting") {
+    sendToAll("live-status", getLiveStatus());
+  }
+};
+
+/**
+ * Retry after a failed poll with exponential backoff
+ * Transient errors retry the same continuation first; after repeated failures (or when YouTube stops
+ * returning a continuation) metadata is fetched again to get a fresh one
+ */
+const scheduleLiveReconnect = (reason: string, needsNewContinuation: boolean): void => {
+  liveFailureCount++;
+  const delay = Math.min(LIVE_RETRY_BASE_MS * 2 ** (liveFailureCount - 1), LIVE_RETRY_MAX_MS);
+  const refreshMetadata = needsNewContinuation || liveFailureCount >= LIVE_FAILURES_BEFORE_METADATA_REFRESH;
+
+  logger.warn(
+    `[liveChat] ${reason}; retry ${liveFailureCount} in ${delay}ms${refreshMetadata ? " (new metadata)" : ""}`,
+  );
+  setLiveConnectionState("reconnecting");
+  liveChatPollingTimer = setTimeout(refreshMetadata ? reconnectLiveChat : pollLiveChat, delay);
+};
+
+/**
+ * Fetch metadata again to recover a continuation, or detect that the stream has ended
+ */
+const reconnectLiveChat = async (): Promise<void> => {
+  liveChatPollingTimer = null;
+  if (!liveVideoId || !isLiveStream) {
+    return;
+  }
+
+  const generation = loadGeneration;
+  const metadataResult = await liveChatFetcher.fetchMetadata(liveVideoId);
+  if (isStale(generation)) {
+    return; // Video changed while reconnecting
+  }
+
+  if (!metadataResult.success) {
+    if (metadataResult.isNotLive) {
+      endLiveChat();
+    } else {
+      scheduleLiveReconnect(`Metadata refresh failed: ${metadataResult.error}`, true);
+    }
+    return;
+  }
+
+  liveChatMetadata = metadataResult.metadata;
+  pollLiveChat();
+};
+
+/**
+ * Stop polling for good once the stream is over, then switch to its chat replay
+ * Live state is kept until the replay is loaded so the received chat stays usable (overlay, export)
+ */
+const endLiveChat = (): void => {
+  if (liveChatPollingTimer) {
+    clearTimeout(liveChatPollingTimer);
+    liveChatPollingTimer = null;
+  }
+  logger.log("[liveChat] Stream ended");
+  setLiveConnectionState("ended");
+
+  if (liveVideoId) {
+    switchToReplay(liveVideoId);
+  }
+};
+
+/**
+ * Merge a batch of messages into a list sorted by timestamp, in one pass over the list
+ */
+const mergeSortedMessages = (sorted: ChatMessage[], batch: ChatMessage[]): ChatMessage[] => {
+  const incoming = [...batch].sort((a, b) => a.timestamp - b.timestamp);
+  const merged: ChatMessage[] = [];
+  let i = 0;
+  for (const msg of incoming) {
+    while (i < sorted.length && sorted[i].timestamp <= msg.timestamp) {
+      merged.push(sorted[i++]);
+    }
+    merged.push(msg);
+  }
+  for (; i < sorted.length; i++) {
+    merged.push(sorted[i]);
+  }
+  return merged;
+};
+
+/**
+ * Merge messages received live into the replay by ID
+ * Replay copies win since they carry video offsets; deletions seen live are kept
+ */
+const mergeLiveIntoReplay = (live: ChatMessage[], replay: ChatMessage[]): ChatMessage[] => {
+  const liveById = new Map(live.map((msg) => [msg.id, msg]));
+  const merged = replay.map((msg) => (liveById.get(msg.id)?.deleted ? { ...msg, deleted: true } : msg));
+
+  const replayIds = new Set(replay.map((msg) => msg.id));
+  for (const msg of live) {
+    if (!replayIds.has(msg.id)) {
+      merged.push(msg);
+    }
+  }
+
+  return merged.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Load the chat replay of a stream that just ended, including chat from before we joined
+ * Retries while YouTube is still preparing the replay
+ */
+const switchToReplay = async (videoId: string, attempt = 1): Promise<void> => {
+  liveChatPollingTimer = null;
+  logger.log(`[switchToReplay] Loading replay for ${videoId} (attempt ${attempt})`);
+  const generation = loadGeneration;
+  isFetchingArchivedChat = true;
+  sendToAll("chat-loading", { loading: true });
+
+  const result = await archivedChatFetcher.fetchAllMessages(videoId, (progress) => {
+    if (isStale(generation)) return;
+    sendToAll("chat-progress", {
+      fetchedMessages: progress.fetchedMessages,
+      currentOffsetMs: progress.currentOffsetMs,
+      status: progress.status,
+      message: progress.message,
+    });
+  });
+
+  if (isStale(generation)) {
+    return; // Video changed while loading
+  }
+  isFetchingArchivedChat = false;
+  if (!result.success && result.cancelled) {
+    return; // Loading was cancelled; the chat received live stays
+  }
+
+  if (!result.success || result.messages.length === 0) {
+    const reason = result.success ? "replay is empty" : result.error;
+    sendToAll("chat-loading", { loading: false });
+    if (attempt < REPLAY_MAX_ATTEMPTS) {
+      logger.log(`[switchToReplay] Replay not ready (${reason}), retrying in ${REPLAY_RETRY_DELAY_MS}ms`);
+      liveChatPollingTimer = setTimeout(() => switchToReplay(videoId, attempt + 1), REPLAY_RETRY_DELAY_MS);
+    } else {
+      logger.warn(`[switchToReplay] Giving up: ${reason}`);
+    }
+    return;
+  }
+
+  const liveMessages = chatData;
+  stopLiveChatPolling();
+  liveArrivalPositions.clear();
+
+  chatData = mergeLiveIntoReplay(liveMessages, result.messages);
+  chatBanners = result.banners;
+  chatGaps = result.gaps;
+  logger.log(`[switchToReplay] ${result.messages.length} replay + ${liveMessages.length} live → ${chatData.length}`);
+
+  // An incomplete replay isn't cached, so reopening the video fetches it again
+  const prefs = getPreferences();
+  if (prefs.enableChatCache && chatGaps.length === 0) {
+    chatCache.set(videoId, { messages: chatData, banners: chatBanners }, prefs.chatCacheSizeMB * 1024 * 1024);
+  }
+
+  // Webviews switch to position-synced mode on chat-data-complete (isLive: false)
+  sendToAll("live-status", null);
+  sendChatDataTo(sendToAll);
+  sendToAll("chat-loading", { loading: false });
+  updateChatOverlay();
+};
+
+/**
+ * Apply moderator deletions, bans and replacements to chatData
+ * Returns the messages that changed, in their new form
+ */
+const applyChatItemUpdates = (updates: ChatItemUpdate[]): ChatMessage[] => {
+  const changed = new Map<string, ChatMessage>();
+
+  for (const update of updates) {
+    for (let i = 0; i < chatData.length; i++) {
+      const message = chatData[i];
+      let next: ChatMessage | null = null;
+
+      if (update.type === "delete" && message.id === update.id && !message.deleted) {
+        next = { ...message, deleted: true };
+      } else if (update.type === "delete-author" && message.authorChannelId === update.channelId && !message.deleted) {
+        next = { ...message, deleted: true };
+      } else if (update.type === "replace" && message.id === update.id) {
+        next = update.message;
+      }
+
+      if (next) {
+        chatData[i] = next;
+        changed.set(next.id, next);
+      }
+    }
+  }
+
+  return [...changed.values()];
 };
 
 /**
@@ -145,12 +699,15 @@ const pollLiveChat = async (): Promise<void> => {
     return;
   }
 
+  liveChatPollingTimer = null;
+  const generation = loadGeneration;
   const result = await liveChatFetcher.fetchLiveChat(liveChatMetadata);
+  if (isStale(generation)) {
+    return; // Video changed while the request was in flight
+  }
 
   if (!result.success) {
-    logger.error(`[pollLiveChat] Error: ${result.error}`);
-    // Continue polling even on error
-    liveChatPollingTimer = setTimeout(pollLiveChat, 5000);
+    scheduleLiveReconnect(`Poll failed: ${result.error}`, false);
     return;
   }
 
@@ -159,6 +716,12 @@ const pollLiveChat = async (): Promise<void> => {
     const isFirstBatch = chatData.length === 0;
     chatData.push(...result.messages);
 
+    const arrivalPosition = core.status.position ?? 0;
+    for (const msg of result.messages) {
+      liveArrivalPositions.set(msg.id, arrivalPosition);
+    }
+    scheduleOverlayUpdate();
+
     // Log first batch to confirm polling works
     if (isFirstBatch) {
       logger.log(`[pollLiveChat] First batch received: ${result.messages.length} messages`);
@@ -166,37 +729,102 @@ const pollLiveChat = async (): Promise<void> => {
 
     // Send new messages to all webviews
     sendToAll("live-chat-messages", { messages: result.messages });
+
+    // Keep the Super Chat ledger accumulating during the stream
+    if (result.messages.some((msg) => msg.type === "superchat" || msg.type === "supersticker")) {
+      sendToAll("superchat-ledger", superChatLedger.build(chatData));
+    }
   }
 
-  // Update continuation token
-  if (result.continuation) {
-    liveChatMetadata = {
-      ...liveChatMetadata,
-      continuation: result.continuation,
-    };
+  // Moderation can target messages from this batch, so apply it after adding them
+  if (result.updates.length > 0) {
+    const changed = applyChatItemUpdates(result.updates);
+    if (changed.length > 0) {
+      sendToAll("chat-messages-update", { messages: changed });
+      scheduleOverlayUpdate();
+    }
   }
 
+  if (result.bannerEvents.length > 0) {
+    chatBanners = BannerParser.applyEvents(chatBanners, result.bannerEvents);
+    sendToAll("chat-banners", { banners: chatBanners });
+  }
+
+  // No continuation happens on stream hiccups, expired sessions (403) and when the stream ends
+  if (!result.continuation) {
+    scheduleLiveReconnect("No continuation in response", true);
+    return;
+  }
+
+  // Update continuation token
+  liveChatMetadata = {
+    ...liveChatMetadata,
+    continuation: result.continuation,
+  };
+  liveFailureCount = 0;
+  setLiveConnectionState("connected");
+
   // Schedule next poll
-  if (isLiveStream && result.continuation) {
-    const pollInterval = Math.max(result.timeoutMs, 1000); // Minimum 1 second
-    liveChatPollingTimer = setTimeout(pollLiveChat, pollInterval);
-  } else {
-    stopLiveChatPolling();
+  const pollInterval = Math.max(result.timeoutMs, 1000); // Minimum 1 second
+  liveChatPollingTimer = setTimeout(pollLiveChat, pollInterval);
+};
+
+/**
+ * Load chat broadcast before we joined a DVR stream through the replay API
+ * Runs alongside live polling; backfilled messages are merged into the live ones by timestamp
+ */
+const backfillLiveChat = async (videoId: string, startTimeMs: number): Promise<void> => {
+  const durationMs = Date.now() - startTimeMs;
+  logger.log(`[backfillLiveChat] Fetching ${Math.round(durationMs / 60000)} minutes of earlier chat`);
+
+  const generation = loadGeneration;
+  const result = await archivedChatFetcher.fetchAllMessages(videoId, undefined, {
+    durationMs,
+    // Viewers are most likely to rewind a little, so start near the live edge
+    priorityOffsetMs: durationMs,
+  });
+
+  if (isStale(generation) || liveVideoId !== videoId) {
+    return; // Video changed (or stream switched to replay) while loading
+  }
+  if (!result.success) {
+    // A cancelled backfill was superseded (e.g. by the replay once the stream ended)
+    if (!result.cancelled) {
+      logger.warn(`[backfillLiveChat] Earlier chat not available: ${result.error}`);
+    }
+    return;
+  }
+
+  const liveIds = new Set(chatData.map((msg) => msg.id));
+  const earlier = result.messages.filter((msg) => !liveIds.has(msg.id));
+  logger.log(`[backfillLiveChat] Added ${earlier.length} earlier messages`);
+  if (earlier.length === 0) {
+    return;
   }
+
+  // Live messages that arrived meanwhile can be older than the newest backfilled ones
+  chatData = mergeSortedMessages(chatData, earlier);
+  sendChatDataTo(sendToAll);
+  scheduleOverlayUpdate();
 };
 
 /**
  * Start fetching live chat
  */
-const startLiveChat = async (videoId: string): Promise<boolean> => {
+const startLiveChat = async (videoId: string, generation: number): Promise<boolean> => {
   logger.log(`[startLiveChat] Starting for video: ${videoId}`);
 
   // Reset state
   liveChatFetcher.resetMessageIndex();
   chatData = [];
+  chatBanners = [];
+  chatGaps = [];
 
   // Fetch metadata
   const metadataResult = await liveChatFetcher.fetchMetadata(videoId);
+  if (isStale(generation)) {
+    return true; // Video changed while checking; the newer load takes over
+  }
 
   if (!metadataResult.success) {
     if (metadataResult.isNotLive) {
@@ -212,9 +840,15 @@ const startLiveChat = async (videoId: string): Promise<boolean> => {
   }
 
   // Store metadata and mark as live
+  liveVideoId = videoId;
   liveChatMetadata = metadataResult.metadata;
   isLiveStream = true;
 
+  // The player starts at the live edge, i.e. at the current stream offset
+  const { startTimeMs } = metadataResult.metadata;
+  liveOffsetSeconds = startTimeMs !== null ? (Date.now() - startTimeMs) / 1000 - (core.status.position ?? 0) : null;
+  sendToAll("live-status", getLiveStatus());
+
   logger.log("[startLiveChat] Live stream detected, starting polling");
   sendToAll("chat-info", { message: "Live stream detected - fetching live chat..." });
 
@@ -226,39 +860,35 @@ const startLiveChat = async (videoId: string): Promise<boolean> => {
   // Start polling
   pollLiveChat();
 
+  // Chat from before we joined, for viewers who rewind
+  if (metadataResult.metadata.isDvrEnabled && startTimeMs !== null) {
+    backfillLiveChat(videoId, startTimeMs);
+  }
+
   return true; // Handled as live stream
 };
 
-/**
- * Find yt-dlp executable path
- */
-const findYtdlpPath = (): string => {
-  const commonPaths = [
-    "/opt/homebrew/bin/yt-dlp", // macOS Apple Silicon (Homebrew)
-    "/usr/local/bin/yt-dlp", // macOS Intel (Homebrew) / Linux
-    "/usr/bin/yt-dlp", // Linux system package
-  ];
-
-  for (const path of commonPaths) {
-    if (utils.fileInPath(path)) {
-      return path;
-    }
-  }
-  return "yt-dlp"; // Fallback to PATH lookup
-};
+// yt-dlp errors for videos that need a signed-in account (members-only, age-restricted)
+const SIGN_IN_REQUIRED_PATTERN = /members-only|channel's members|Sign in to confirm/i;
 
 /**
  * Check if chat is available for a video using yt-dlp metadata
- * Returns true if chat is available, false otherwise
+ * Returns true if chat is available, false otherwise (requiresSignIn when YouTube refused anonymous access)
  */
-const checkChatAvailability = async (videoUrl: string): Promise<{ available: boolean; isLive: boolean }> => {
-  const ytdlpPath = findYtdlpPath();
-
+const checkChatAvailability = async (
+  videoUrl: string,
+  ytdlpPath: string,
+): Promise<{ available: boolean; isLive: boolean; requiresSignIn?: boolean }> => {
   try {
-    const result = await utils.exec(ytdlpPath, ["--dump-json", "--no-download", videoUrl]);
+    const result = await utils.exec(ytdlpPath, [
+      "--dump-json",
+      "--no-download",
+      ...youtubeCookies.getYtdlpArgs(),
+      videoUrl,
+    ]);
 
     if (result.status !== 0) {
-      return { available: false, isLive: false };
+      return { available: false, isLive: false, requiresSignIn: SIGN_IN_REQUIRED_PATTERN.test(result.stderr) };
     }
 
     const metadata = JSON.parse(result.stdout);
@@ -274,47 +904,85 @@ const checkChatAvailability = async (videoUrl: string): Promise<{ available: boo
 
 /**
  * Fetch archived chat data using direct YouTube API (no yt-dlp dependency)
- * Reports progress during fetch
+ * Reports progress during fetch and stores the result in the disk cache
  */
-const fetchArchivedChatData = async (videoId: string): Promise<void> => {
+const fetchArchivedChatData = async (videoId: string, generation: number): Promise<void> => {
   try {
+    isFetchingArchivedChat = true;
     sendToAll("chat-loading", { loading: true });
 
-    const result = await archivedChatFetcher.fetchAllMessages(videoId, (progress) => {
-      // Send progress updates to webviews
-      sendToAll("chat-progress", {
-        fetchedMessages: progress.fetchedMessages,
-        currentOffsetMs: progress.currentOffsetMs,
-        status: progress.status,
-        message: progress.message,
-      });
-    });
-
+    const result = await archivedChatFetcher.fetchAllMessages(
+      videoId,
+      (progress) => {
+        if (isStale(generation)) return;
+        // Send progress updates to webviews
+        sendToAll("chat-progress", {
+          fetchedMessages: progress.fetchedMessages,
+          currentOffsetMs: progress.currentOffsetMs,
+          status: progress.status,
+          message: progress.message,
+        });
+      },
+      {
+        // Start delivering around where the viewer is watching
+        priorityOffsetMs: toChatTime(core.status.position ?? 0) * 1000,
+        onMessages: (messages) => {
+          if (isStale(generation)) return;
+          // Keep chatData usable for webviews that open mid-fetch
+          chatData = mergeSortedMessages(chatData, messages);
+          sendToAll("chat-data-partial", { messages });
+          scheduleOverlayUpdate();
+        },
+      },
+    );
+
+    // Results for a video that is no longer open are discarded
+    if (isStale(generation)) {
+      return;
+    }
+    if (!result.success && result.cancelled) {
+      return; // Loading was cancelled; onCancelLoading keeps what was fetched so far
+    }
     if (!result.success) {
       throw new Error(result.error);
     }
 
     chatData = result.messages;
+    chatBanners = result.banners;
+    chatGaps = result.gaps;
+
+    // An incomplete replay isn't cached, so reopening the video fetches it again
+    const prefs = getPreferences();
+    if (prefs.enableChatCache && chatData.length > 0 && chatGaps.length === 0) {
+      chatCache.set(videoId, { messages: chatData, banners: chatBanners }, prefs.chatCacheSizeMB * 1024 * 1024);
+    }
 
     // Send chat data to all webviews
     sendChatDataTo(sendToAll);
     sendToAll("chat-loading", { loading: false });
+    updateChatOverlay();
   } catch (error) {
+    if (isStale(generation)) return;
     sendToAll("chat-error", {
       message: "Failed to fetch chat data",
       error: String(error),
     });
     sendToAll("chat-loading", { loading: false });
+  } finally {
+    if (!isStale(generation)) {
+      isFetchingArchivedChat = false;
+    }
   }
 };
 
 /**
  * Fetch chat data - uses metadata-first approach for faster window opening
+ * 0. Serve archived chat from the disk cache (unless forceRefresh)
  * 1. Quick metadata check with yt-dlp --dump-json
  * 2. If chat available, open window immediately with loading state
  * 3. Download full chat data in background
  */
-const fetchChatData = async (videoUrl: string): Promise<void> => {
+const fetchChatData = async (videoUrl: string, forceRefresh = false): Promise<void> => {
   const videoId = extractVideoId(videoUrl);
 
   if (!videoId) {
@@ -322,15 +990,62 @@ const fetchChatData = async (videoUrl: string): Promise<void> => {
     return;
   }
 
-  // Stop any existing live chat polling
-  stopLiveChatPolling();
+  // Stop live polling and downloads still running for the previous load
+  const generation = cancelPendingWork();
 
   // Clear previous data and fetch fresh
   chatData = [];
+  chatBanners = [];
+  chatGaps = [];
+
+  // Archived chat never changes, so a cached copy can be shown instantly
+  if (!forceRefresh && getPreferences().enableChatCache) {
+    const cached = chatCache.get(videoId);
+    if (cached) {
+      chatData = cached.messages;
+      chatBanners = cached.banners;
+
+      if (getPreferences().autoOpenChatWindow) {
+        openStandaloneWindow();
+      }
+
+      sendChatDataTo(sendToAll);
+      sendToAll("chat-loading", { loading: false });
+      updateChatOverlay();
+      return;
+    }
+  }
+
+  // yt-dlp tells live streams apart from replays
+  const ytdlp = await ytdlpResolver.resolve();
+  if (isStale(generation)) {
+    return;
+  }
+  if (!ytdlp.success) {
+    sendToAll("chat-error", { message: ytdlp.error });
+    return;
+  }
+  if (ytdlp.isOutdated) {
+    sendToAll("chat-warning", {
+      message: `yt-dlp ${ytdlp.version} is outdated and may fail on YouTube. Update it (brew upgrade yt-dlp).`,
+    });
+  }
 
   // Quick metadata check
   sendToAll("chat-info", { message: "Checking for chat data..." });
-  const { available, isLive } = await checkChatAvailability(videoUrl);
+  const { available, isLive, requiresSignIn } = await checkChatAvailability(videoUrl, ytdlp.path);
+  if (isStale(generation)) {
+    return;
+  }
+
+  if (requiresSignIn) {
+    sendToAll("chat-error", {
+      message: youtubeCookies.isConfigured()
+        ? "This video requires signing in, but YouTube did not accept your cookies. They may have expired; export them again."
+        : "This video is members-only or age-restricted. Set a YouTube cookies file in settings to load its chat.",
+    });
+    return;
+  }
 
   if (!available) {
     sendToAll("chat-info", { message: "No chat data available for this video" });
@@ -340,7 +1055,10 @@ const fetchChatData = async (videoUrl: string): Promise<void> => {
   // Chat is available
   if (isLive) {
     // For live streams, always fetch fresh (need to restart polling)
-    const handled = await startLiveChat(videoId);
+    const handled = await startLiveChat(videoId, generation);
+    if (isStale(generation)) {
+      return;
+    }
     if (handled) {
       sendToAll("chat-loading", { loading: false });
       return;
@@ -355,14 +1073,78 @@ const fetchChatData = async (videoUrl: string): Promise<void> => {
   }
 
   // Now fetch chat data in background (using videoId for direct API access)
-  await fetchArchivedChatData(videoId);
+  await fetchArchivedChatData(videoId, generation);
+};
+
+/**
+ * Load chat replay from a local yt-dlp live_chat.json file
+ */
+const loadLocalChatData = (chatPath: string): void => {
+  cancelPendingWork();
+  chatData = [];
+  chatBanners = [];
+  chatGaps = [];
+
+  sendToAll("chat-loading", { loading: true });
+
+  const result = localChatLoader.load(chatPath);
+  if (!result.success) {
+    sendToAll("chat-error", {
+      message: "Failed to load local chat file",
+      error: result.error,
+    });
+    sendToAll("chat-loading", { loading: false });
+    return;
+  }
+
+  chatData = result.messages;
+  chatBanners = result.banners;
+
+  if (result.skippedLines > 0) {
+    sendToAll("chat-warning", {
+      message: `Skipped ${result.skippedLines.toLocaleString()} unreadable ${result.skippedLines === 1 ? "line" : "lines"} of the chat file`,
+    });
+  }
+
+  if (chatData.length === 0) {
+    sendToAll("chat-info", { message: "Local chat file contains no messages" });
+    return;
+  }
+
+  if (getPreferences().autoOpenChatWindow) {
+    openStandaloneWindow();
+  }
+
+  sendChatDataTo(sendToAll);
+  sendToAll("chat-loading", { loading: false });
+  updateChatOverlay();
 };
 
 /**
  * Handle file loaded event
  */
 const onFileLoaded = (): void => {
-  stopLiveChatPolling();
+  cancelPendingWork();
+  resetChatOverlay();
+  applyPendingCacheClear();
+
+  // Filters may have been edited on the preferences page since the last video
+  sendFiltersTo(sendToAll);
+  sendToAll("chat-activity", null);
+  sendToAll("superchat-ledger", null);
+  sendToAll("chat-banners", { banners: [] });
+  sendToAll("chat-gaps", { gaps: [] });
+  sendToAll("live-status", null);
+  sendToAll("chat-warning", null);
+  liveOffsetSeconds = null;
+  // The yt-dlp path and cookies file may have been changed in settings
+  ytdlpResolver.invalidate();
+  youtubeCookies.invalidate();
+  currentVideoUrl = null;
+  currentLocalChatPath = null;
+  chatData = [];
+  chatBanners = [];
+  chatGaps = [];
 
   const url = core.status.url;
   if (!url) {
@@ -370,6 +1152,16 @@ const onFileLoaded = (): void => {
   }
 
   if (!isYouTubeUrl(url)) {
+    // Local files may have a yt-dlp live_chat.json sidecar next to them
+    const localPath = localChatLoader.toLocalPath(url);
+    const chatPath = localPath ? localChatLoader.findSidecar(localPath) : null;
+    if (chatPath) {
+      currentVideoUrl = url;
+      currentLocalChatPath = chatPath;
+      loadLocalChatData(chatPath);
+      return;
+    }
+
     sendToAll("chat-info", { message: "This is not a YouTube video" });
     return;
   }
@@ -384,11 +1176,122 @@ const onFileLoaded = (): void => {
   fetchChatData(url);
 };
 
+/**
+ * Re-download chat for the current YouTube video, bypassing the disk cache
+ */
+const refreshChatFromYouTube = (): void => {
+  if (!currentVideoUrl || !isYouTubeUrl(currentVideoUrl)) {
+    core.osd("No YouTube video to refresh chat for");
+    return;
+  }
+  fetchChatData(currentVideoUrl, true);
+};
+
+/**
+ * Remove all cached chat from disk
+ */
+const clearChatCache = (): void => {
+  chatCache.clear();
+  core.osd("YouTube chat cache cleared");
+};
+
+/**
+ * Get a base file name for exports of the current video's chat
+ */
+const getExportBaseName = (): string => {
+  if (currentVideoUrl) {
+    const videoId = extractVideoId(currentVideoUrl);
+    if (videoId) {
+      return videoId;
+    }
+    const localPath = localChatLoader.toLocalPath(currentVideoUrl);
+    if (localPath) {
+      const fileName = localPath.slice(localPath.lastIndexOf("/") + 1);
+      const dotIndex = fileName.lastIndexOf(".");
+      return dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+    }
+  }
+  return "youtube-chat";
+};
+
+/**
+ * Export the current chat (archived or accumulated live chat) to a user-chosen folder
+ */
+const exportChat = (format: ExportFormat): void => {
+  if (chatData.length === 0) {
+    core.osd("No chat to export");
+    return;
+  }
+
+  const dir = utils.chooseFile("Choose a folder to save the chat export", { chooseDir: true });
+  if (!dir) {
+    return;
+  }
+
+  const path = `${dir.replace(/\/$/, "")}/${getExportBaseName()}.chat.${EXPORT_FILE_EXTENSIONS[format]}`;
+  if (file.exists(path) && !utils.ask(`${path} already exists. Overwrite it?`)) {
+    return;
+  }
+
+  // Snapshot so live messages arriving during export don't change the output
+  const result = chatExporter.export([...chatData], format, path);
+  if (result.success) {
+    core.osd(`Exported ${result.messageCount.toLocaleString()} chat messages`);
+  } else {
+    core.osd(`Chat export failed: ${result.error}`);
+  }
+};
+
+/**
+ * Export Super Chats and Super Stickers with parsed amounts as CSV
+ */
+const exportSuperChats = (): void => {
+  const ledger = superChatLedger.build(chatData);
+  if (ledger.entries.length === 0) {
+    core.osd("No Super Chats to export");
+    return;
+  }
+
+  const dir = utils.chooseFile("Choose a folder to save the Super Chat export", { chooseDir: true });
+  if (!dir) {
+    return;
+  }
+
+  const path = `${dir.replace(/\/$/, "")}/${getExportBaseName()}.superchats.csv`;
+  if (file.exists(path) && !utils.ask(`${path} already exists. Overwrite it?`)) {
+    return;
+  }
+
+  const result = chatExporter.exportSuperChatLedger(ledger, path);
+  if (result.success) {
+    core.osd(`Exported ${result.messageCount.toLocaleString()} Super Chats`);
+  } else {
+    core.osd(`Super Chat export failed: ${result.error}`);
+  }
+};
+
+/**
+ * Convert a player position to chat time (stream offset for live streams, video offset otherwise)
+ */
+const toChatTime = (position: number): number => position + (liveOffsetSeconds ?? 0);
+
+/**
+ * Convert chat time back to a player position (inverse of toChatTime)
+ */
+const toPlayerPosition = (chatTime: number): number => chatTime - (liveOffsetSeconds ?? 0);
+
 /**
  * Handle playback position changes
  */
 const onPositionChanged = (): void => {
-  const position = core.status.position;
+  const playerPosition = core.status.position;
+  const position = playerPosition !== null ? toChatTime(playerPosition) : null;
+
+  // Keep fetching the part of the video being watched first (handles seeks mid-fetch)
+  if (isFetchingArchivedChat && position !== null) {
+    archivedChatFetcher.setPriorityOffset(position * 1000);
+  }
+
   if (!currentVideoUrl || chatData.length === 0 || position === null) {
     return;
   }
@@ -401,17 +1304,131 @@ const onPositionChanged = (): void => {
  * Handle retry-fetch message from sidebar
  */
 const onRetryFetch = (_data: unknown): void => {
-  if (currentVideoUrl) {
+  ytdlpResolver.invalidate();
+  youtubeCookies.invalidate();
+  if (currentLocalChatPath) {
+    loadLocalChatData(currentLocalChatPath);
+  } else if (currentVideoUrl) {
     fetchChatData(currentVideoUrl);
   }
 };
 
+/**
+ * Handle cancel-loading message from sidebar or standalone window
+ * Chat received so far stays visible but is not cached
+ */
+const onCancelLoading = (_data: unknown): void => {
+  logger.log("[onCancelLoading] Loading cancelled");
+  // Only the chat download stops; live polling and reconnects keep running
+  archivedChatFetcher.cancel();
+  isFetchingArchivedChat = false;
+  sendToAll("chat-loading", { loading: false });
+
+  if (chatData.length === 0) {
+    sendToAll("chat-info", { message: "Loading cancelled" });
+    return;
+  }
+  sendChatDataTo(sendToAll);
+  updateChatOverlay();
+};
+
+/**
+ * Handle update-filters message from sidebar or standalone window
+ * Persists the change in preferences and applies it to all webviews
+ */
+const onUpdateFilters = (data: unknown): void => {
+  const parseResult = UpdateFiltersRequestSchema.safeParse(data);
+  if (!parseResult.success) {
+    logger.error(`[onUpdateFilters] Invalid request: ${parseResult.error}`);
+    return;
+  }
+
+  const request = parseResult.data;
+  const prefs = getPreferences();
+
+  switch (request.action) {
+    case "mute-author": {
+      const lines = splitLines(prefs.mutedAuthors);
+      if (!lines.some((line) => line.split(" ")[0] === request.channelId)) {
+        lines.push(`${request.channelId} ${request.name}`);
+        preferences.set("mutedAuthors", lines.join("\n"));
+      }
+      break;
+    }
+    case "unmute-author": {
+      const lines = splitLines(prefs.mutedAuthors).filter((line) => line.split(" ")[0] !== request.channelId);
+      preferences.set("mutedAuthors", lines.join("\n"));
+      break;
+    }
+    case "add-keyword": {
+      const keyword = request.keyword.replace(/\s+/g, " ").trim();
+      const lines = splitLines(prefs.filterKeywords);
+      if (keyword && !lines.includes(keyword)) {
+        lines.push(keyword);
+        preferences.set("filterKeywords", lines.join("\n"));
+      }
+      break;
+    }
+  }
+
+  preferences.sync();
+  // Already sent, so the preference watch doesn't send it again
+  lastFilterPreferences = getFilterPreferencesKey();
+  sendFiltersTo(sendToAll);
+};
+
+// How far before a message to seek when the context modifier is held
+const SEEK_CONTEXT_SECONDS = 5;
+
+/**
+ * Handle seek-to message from sidebar or standalone window
+ */
+const onSeekTo = (data: unknown): void => {
+  const parseResult = SeekToRequestSchema.safeParse(data);
+  if (!parseResult.success) {
+    logger.error(`[onSeekTo] Invalid request: ${parseResult.error}`);
+    return;
+  }
+
+  // Without DVR the stream can't be rewound; without the broadcast start time messages have no stream offset
+  if (isLiveStream && !canSeekLiveChat()) {
+    logger.warn("[onSeekTo] Seeking to live chat messages is not supported for this stream");
+    return;
+  }
+
+  const { timestamp, withContext } = parseResult.data;
+  const target = Math.max(0, withContext ? timestamp - SEEK_CONTEXT_SECONDS : timestamp);
+  // Absolute, since the reported position can be stale (or null) while seeking or buffering
+  core.seekTo(Math.max(0, toPlayerPosition(target)));
+};
+
+/**
+ * Create a handler for update-display-filters messages from the given webview
+ * The webview applies the change itself; it is only persisted here
+ */
+const createDisplayFiltersHandler =
+  (target: WebviewTarget) =>
+  (data: unknown): void => {
+    const parseResult = DisplayFiltersSchema.safeParse(data);
+    if (!parseResult.success) {
+      logger.error(`[onUpdateDisplayFilters] Invalid request: ${parseResult.error}`);
+      return;
+    }
+
+    preferences.set(DISPLAY_FILTERS_PREF_KEYS[target], JSON.stringify(parseResult.data));
+    preferences.sync();
+  };
+
 /**
  * Handle sidebar-ready message from sidebar
  * Send current state when sidebar is ready
  */
 const onSidebarReady = (_data: unknown): void => {
   sendPreferencesTo(sendToSidebar);
+  sendFiltersTo(sendToSidebar);
+  sendDisplayFiltersTo("sidebar", sendToSidebar);
+  sendToSidebar("live-status", getLiveStatus());
+  sendToSidebar("auth-status", youtubeCookies.getAuthStatus());
 
   if (!currentVideoUrl) {
     sendToSidebar("chat-info", { message: "Open a YouTube video to see chat" });
@@ -421,7 +1438,7 @@ const onSidebarReady = (_data: unknown): void => {
   // Send chat data if available, otherwise show loading (fetch is in progress)
   if (chatData.length > 0) {
     sendChatDataTo(sendToSidebar);
-    sendToSidebar("chat-loading", { loading: false });
+    sendToSidebar("chat-loading", { loading: isFetchingArchivedChat });
   } else {
     sendToSidebar("chat-loading", { loading: true });
   }
@@ -435,6 +1452,10 @@ const onStandaloneWindowReady = (_data: unknown): void => {
   isStandaloneWindowReady = true;
 
   sendPreferencesTo((name, data) => standaloneWindow.postMessage(name, data));
+  sendFiltersTo((name, data) => standaloneWindow.postMessage(name, data));
+  sendDisplayFiltersTo("window", (name, data) => standaloneWindow.postMessage(name, data));
+  standaloneWindow.postMessage("live-status", getLiveStatus());
+  standaloneWindow.postMessage("auth-status", youtubeCookies.getAuthStatus());
 
   if (!currentVideoUrl) {
     standaloneWindow.postMessage("chat-info", { message: "Open a YouTube video to see chat" });
@@ -444,7 +1465,7 @@ const onStandaloneWindowReady = (_data: unknown): void => {
   // Send chat data if available, otherwise show loading (fetch is in progress)
   if (chatData.length > 0) {
     sendChatDataTo((name, data) => standaloneWindow.postMessage(name, data));
-    standaloneWindow.postMessage("chat-loading", { loading: false });
+    standaloneWindow.postMessage("chat-loading", { loading: isFetchingArchivedChat });
   } else {
     standaloneWindow.postMessage("chat-loading", { loading: true });
   }
@@ -460,7 +1481,12 @@ const openStandaloneWindow = (): void => {
 
   standaloneWindow.loadFile("dist/sidebar/index.html");
   standaloneWindow.onMessage("retry-fetch", onRetryFetch);
+  standaloneWindow.onMessage("cancel-loading", onCancelLoading);
   standaloneWindow.onMessage("sidebar-ready", onStandaloneWindowReady);
+  standaloneWindow.onMessage("update-filters", onUpdateFilters);
+  standaloneWindow.onMessage("seek-to", onSeekTo);
+  standaloneWindow.onMessage("export-superchats", exportSuperChats);
+  standaloneWindow.onMessage("update-display-filters", createDisplayFiltersHandler("window"));
 
   standaloneWindow.setProperty({
     title: "YouTube Chat",
@@ -491,10 +1517,25 @@ const toggleStandaloneWindow = (): void => {
 event.on("iina.window-loaded", () => {
   sidebar.loadFile("dist/sidebar/index.html");
   sidebar.onMessage("retry-fetch", onRetryFetch);
+  sidebar.onMessage("cancel-loading", onCancelLoading);
   sidebar.onMessage("sidebar-ready", onSidebarReady);
+  sidebar.onMessage("update-filters", onUpdateFilters);
+  sidebar.onMessage("seek-to", onSeekTo);
+  sidebar.onMessage("export-superchats", exportSuperChats);
+  sidebar.onMessage("update-display-filters", createDisplayFiltersHandler("sidebar"));
+  startPreferenceWatch();
 
   const chatWindowMenuItem = menu.item("Open Chat Window", toggleStandaloneWindow);
   menu.addItem(chatWindowMenuItem);
+
+  const exportMenuItem = menu.item("Export Chat");
+  exportMenuItem.addSubMenuItem(menu.item("JSON…", () => exportChat("json")));
+  exportMenuItem.addSubMenuItem(menu.item("CSV…", () => exportChat("csv")));
+  exportMenuItem.addSubMenuItem(menu.item("Plain Text…", () => exportChat("text")));
+  exportMenuItem.addSubMenuItem(menu.item("Super Chats (CSV)…", exportSuperChats));
+  menu.addItem(exportMenuItem);
+  menu.addItem(menu.item("Refresh Chat from YouTube", refreshChatFromYouTube));
+  menu.addItem(menu.item("Clear Chat Cache", clearChatCache));
 });
 
 event.on("iina.file-loaded", (_url: string) => {
@@ -508,8 +1549,9 @@ event.on("iina.window-will-close", () => {
     isStandaloneWindowOpen = false;
     isStandaloneWindowReady = false;
   }
-  // Stop live chat polling
-  stopLiveChatPolling();
+  // Stop live chat polling and downloads
+  cancelPendingWork();
+  stopPreferenceWatch();
 });
 
 event.on("mpv.time-pos.changed", onPositionChanged);
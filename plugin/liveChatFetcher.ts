@@ -3,7 +3,11 @@
  * This module is for live streams only. Archived streams should use yt-dlp.
  */
 
+import { type BannerActions, type BannerEvent, BannerParser } from "./bannerParser";
 import type { AuthorBadge, BadgeType, ChatMessage, MessageRun, MessageType, SuperChatColors } from "./schemas";
+import { DEFAULT_WEB_CLIENT_VERSION, WatchPageFallback } from "./watchPageFallback";
+import { isConsentPage, type YouTubeCookies } from "./youtubeCookies";
+import type { YtdlpResolver } from "./ytdlpResolver";
 
 // Types for IINA API
 interface IINAConsole {
@@ -20,8 +24,20 @@ interface ExecResult {
 
 interface IINAUtils {
   exec(path: string, args: string[], cwd?: string): Promise<ExecResult>;
+  resolvePath(path: string): string;
 }
 
+interface IINAFile {
+  write(path: string, content: string): void;
+  delete(path: string): void;
+}
+
+// curl reads the request headers from files in this directory (only readable by the user),
+// since command line arguments are visible to every user in the process list
+const HEADERS_DIR = "@tmp/curl-headers";
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
 // YouTube API types
 interface YouTubeContext {
   client: {
@@ -29,6 +45,7 @@ interface YouTubeContext {
     gl: string;
     clientName: string;
     clientVersion: string;
+    visitorData?: string;
   };
 }
 
@@ -37,12 +54,24 @@ export interface LiveChatMetadata {
   continuation: string;
   context: YouTubeContext;
   isLive: boolean;
+  isDvrEnabled: boolean; // Viewers can rewind the stream
+  startTimeMs: number | null; // Wall-clock time the broadcast started (epoch ms)
 }
 
-interface ChatAction {
+interface ChatAction extends BannerActions {
   addChatItemAction?: {
     item: ChatItem;
   };
+  markChatItemAsDeletedAction?: {
+    targetItemId?: string;
+  };
+  markChatItemsByAuthorAsDeletedAction?: {
+    externalChannelId?: string;
+  };
+  replaceChatItemAction?: {
+    targetItemId?: string;
+    replacementItem?: ChatItem;
+  };
 }
 
 interface ChatItem {
@@ -113,6 +142,7 @@ interface LiveChatGiftRenderer {
 interface LiveChatEngagementRenderer {
   id: string;
   message?: { runs?: MessageRunYT[] };
+  timestampUsec?: string;
 }
 
 interface MessageRunYT {
@@ -154,8 +184,23 @@ interface LiveChatContinuation {
   };
 }
 
+/**
+ * Moderation change to messages that were already delivered
+ */
+export type ChatItemUpdate =
+  | { type: "delete"; id: string }
+  | { type: "delete-author"; channelId: string }
+  | { type: "replace"; id: string; message: ChatMessage };
+
 export type LiveChatResult =
-  | { success: true; messages: ChatMessage[]; continuation: string | null; timeoutMs: number }
+  | {
+      success: true;
+      messages: ChatMessage[];
+      bannerEvents: BannerEvent[];
+      updates: ChatItemUpdate[];
+      continuation: string | null;
+      timeoutMs: number;
+    }
   | { success: false; error: string };
 
 export type MetadataResult =
@@ -168,12 +213,78 @@ export type MetadataResult =
  */
 export class LiveChatFetcher {
   private utils: IINAUtils;
+  private file: IINAFile;
   private logger: IINAConsole;
+  private ytdlp: YtdlpResolver;
+  private cookies: YouTubeCookies;
   private messageIndex = 0;
-
-  constructor(utils: IINAUtils, logger: IINAConsole) {
+  // Ticker entries repeat messages that may also arrive as regular chat items
+  private seenMessageIds = new Set<string>();
+  // Broadcast start (epoch ms), used to turn message wall-clock times into stream offsets
+  private streamStartTimeMs: number | null = null;
+  private bannerParser: BannerParser;
+  private watchPageFallback: WatchPageFallback;
+  private headersDirReady: Promise<boolean> | null = null;
+  private headerFileCounter = 0;
+
+  constructor(utils: IINAUtils, file: IINAFile, ytdlp: YtdlpResolver, cookies: YouTubeCookies, logger: IINAConsole) {
     this.utils = utils;
+    this.file = file;
+    this.ytdlp = ytdlp;
+    this.cookies = cookies;
     this.logger = logger;
+    this.bannerParser = new BannerParser((item) => this.parseItem(item as ChatItem));
+    this.watchPageFallback = new WatchPageFallback(
+      (url) => this.curlGet(url),
+      (url, data, headers) => this.curlPost(url, data, headers),
+    );
+  }
+
+  /**
+   * Create the private headers directory (once; retried on the next request if it fails)
+   */
+  private prepareHeadersDir(): Promise<boolean> {
+    this.headersDirReady ??= (async () => {
+      const dir = this.utils.resolvePath(HEADERS_DIR);
+      const created = await this.utils.exec("/bin/mkdir", ["-p", "-m", "700", dir]);
+      // mkdir -m doesn't change the mode of a directory that already exists
+      const secured = created.status === 0 && (await this.utils.exec("/bin/chmod", ["700", dir])).status === 0;
+      if (!secured) {
+        this.logger.error(`[LiveChatFetcher] Failed to create ${dir}: ${created.stderr}`);
+        this.headersDirReady = null;
+      }
+      return secured;
+    })();
+    return this.headersDirReady;
+  }
+
+  /**
+   * Run curl with the consent cookie and, with a cookies file, the sign-in cookies and authorization
+   * The headers go through a file (-H @file) so the cookies never appear in curl's arguments
+   */
+  private async execCurl(args: string[], url: string): Promise<ExecResult> {
+    if (!(await this.prepareHeadersDir())) {
+      throw new Error("Could not create a private directory for request headers");
+    }
+
+    const headers = await this.cookies.getRequestHeaders();
+    const path = `${HEADERS_DIR}/request-${++this.headerFileCounter}.txt`;
+    this.file.write(
+      path,
+      Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}\n`)
+        .join(""),
+    );
+
+    try {
+      return await this.utils.exec("/usr/bin/curl", [...args, "-H", `@${this.utils.resolvePath(path)}`, url]);
+    } finally {
+      try {
+        this.file.delete(path);
+      } catch (error) {
+        this.logger.warn(`[LiveChatFetcher] Failed to delete ${path}: ${error}`);
+      }
+    }
   }
 
   /**
@@ -181,15 +292,17 @@ export class LiveChatFetcher {
    */
   private async curlGet(url: string): Promise<{ success: boolean; body: string; error?: string }> {
     try {
-      const result = await this.utils.exec("/usr/bin/curl", [
-        "-s", // Silent mode
-        "-L", // Follow redirects
-        "-A",
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "-H",
-        "Accept-Language: en-US,en;q=0.9",
+      const result = await this.execCurl(
+        [
+          "-s", // Silent mode
+          "-L", // Follow redirects
+          "-A",
+          USER_AGENT,
+          "-H",
+          "Accept-Language: en-US,en;q=0.9",
+        ],
         url,
-      ]);
+      );
 
       if (result.status !== 0) {
         return { success: false, body: "", error: `curl failed with status ${result.status}: ${result.stderr}` };
@@ -203,24 +316,30 @@ export class LiveChatFetcher {
 
   /**
    * Execute curl POST command and return the response body
+   * Extra headers are passed as arguments, so they must not carry credentials (those go through execCurl)
    */
   private async curlPost(
     url: string,
     data: Record<string, unknown>,
+    headers: Record<string, string> = {},
   ): Promise<{ success: boolean; body: string; error?: string }> {
     try {
-      const result = await this.utils.exec("/usr/bin/curl", [
-        "-s", // Silent mode
-        "-X",
-        "POST",
-        "-H",
-        "Content-Type: application/json",
-        "-A",
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "-d",
-        JSON.stringify(data),
+      const result = await this.execCurl(
+        [
+          "-s", // Silent mode
+          "-X",
+          "POST",
+          "-A",
+          USER_AGENT,
+          ...Object.entries({ "Content-Type": "application/json", ...headers }).flatMap(([name, value]) => [
+            "-H",
+            `${name}: ${value}`,
+          ]),
+          "-d",
+          JSON.stringify(data),
+        ],
         url,
-      ]);
+      );
 
       if (result.status !== 0) {
         return { success: false, body: "", error: `curl failed with status ${result.status}: ${result.stderr}` };
@@ -241,9 +360,15 @@ export class LiveChatFetcher {
 
     try {
       // Step 1: Use yt-dlp to check if video is live (more reliable than parsing HTML)
-      const ytdlpResult = await this.utils.exec("/opt/homebrew/bin/yt-dlp", [
+      const ytdlp = await this.ytdlp.resolve();
+      if (!ytdlp.success) {
+        return { success: false, error: ytdlp.error };
+      }
+
+      const ytdlpResult = await this.utils.exec(ytdlp.path, [
         "--dump-json",
         "--no-download",
+        ...this.cookies.getYtdlpArgs(),
         `https://www.youtube.com/watch?v=${videoId}`,
       ]);
 
@@ -273,15 +398,38 @@ export class LiveChatFetcher {
         return { success: false, error: response.error || "Failed to fetch video page" };
       }
 
-      const html = response.body;
+      let html = response.body;
       this.logger.log(`[LiveChatFetcher] HTML fetched, length: ${html.length}`);
 
+      const loggedInMatch = html.match(/"LOGGED_IN":(true|false)/);
+      if (loggedInMatch) {
+        this.cookies.reportSignedIn(loggedInMatch[1] === "true");
+      }
+
       // Extract API key
       const apiKeyMatch = html.match(/"INNERTUBE_API_KEY":"([^"]+)"/);
-      if (!apiKeyMatch) {
-        return { success: false, error: "Could not find API key in page" };
+      let apiKey: string;
+      // Client context from the embed page when the watch page can't be used
+      let fallbackContext: YouTubeContext | null = null;
+      if (apiKeyMatch) {
+        apiKey = apiKeyMatch[1];
+      } else {
+        // Consent interstitials (EU networks) and other page layouts: look the same fields up elsewhere
+        const pageKind = isConsentPage(html) ? "a consent page" : "a page without an API key";
+        this.logger.warn(`[LiveChatFetcher] Watch page is ${pageKind}, trying the embed page`);
+
+        const fallback = await this.watchPageFallback.fetch(videoId);
+        if (!fallback.success) {
+          return { success: false, error: `Watch page is ${pageKind} and the fallback failed: ${fallback.error}` };
+        }
+        if (fallback.loggedIn !== null) {
+          this.cookies.reportSignedIn(fallback.loggedIn);
+        }
+        apiKey = fallback.apiKey;
+        fallbackContext = fallback.context;
+        // The next response has the continuation, the player response the broadcast start and DVR fields
+        html = `${fallback.nextText}\n${fallback.playerText}`;
       }
-      const apiKey = apiKeyMatch[1];
       this.logger.log("[LiveChatFetcher] API key found");
 
       // Extract continuation token directly from HTML (avoid full JSON parsing)
@@ -306,16 +454,22 @@ export class LiveChatFetcher {
       const hlMatch = html.match(/"HL":"([^"]+)"/);
       const glMatch = html.match(/"GL":"([^"]+)"/);
 
-      const context: YouTubeContext = {
+      const context: YouTubeContext = fallbackContext ?? {
         client: {
           hl: hlMatch?.[1] || "en",
           gl: glMatch?.[1] || "US",
           clientName: "WEB",
-          clientVersion: clientVersionMatch?.[1] || "2.20231219.04.00",
+          clientVersion: clientVersionMatch?.[1] || DEFAULT_WEB_CLIENT_VERSION,
         },
       };
 
-      this.logger.log("[LiveChatFetcher] Metadata fetched successfully");
+      // Rewinding and backfill need to know whether DVR is on and when the broadcast started
+      const isDvrEnabled = /"isLiveDvrEnabled":true/.test(html);
+      const startTimestampMatch = html.match(/"liveBroadcastDetails":\{[^}]*"startTimestamp":"([^"]+)"/);
+      const startTimeMs = startTimestampMatch ? Date.parse(startTimestampMatch[1]) : Number.NaN;
+
+      this.logger.log(`[LiveChatFetcher] Metadata fetched successfully (DVR: ${isDvrEnabled})`);
+      this.streamStartTimeMs = Number.isFinite(startTimeMs) ? startTimeMs : null;
 
       return {
         success: true,
@@ -324,6 +478,8 @@ export class LiveChatFetcher {
           continuation,
           context,
           isLive,
+          isDvrEnabled,
+          startTimeMs: this.streamStartTimeMs,
         },
       };
     } catch (error) {
@@ -358,8 +514,8 @@ export class LiveChatFetcher {
         return { success: false, error: "Failed to parse API response" };
       }
 
-      // Extract messages
-      const messages = this.parseActions(data);
+      // Extract messages and banner/poll updates
+      const { messages, bannerEvents, updates } = this.parseActions(data);
 
       // Extract next continuation
       const continuationData = this.extractContinuationFromResponse(data);
@@ -369,6 +525,8 @@ export class LiveChatFetcher {
       return {
         success: true,
         messages,
+        bannerEvents,
+        updates,
         continuation: nextContinuation,
         timeoutMs,
       };
@@ -378,10 +536,12 @@ export class LiveChatFetcher {
   }
 
   /**
-   * Reset message index (call when switching videos)
+   * Reset message index, seen message IDs and stream start time (call when switching videos)
    */
   resetMessageIndex(): void {
     this.messageIndex = 0;
+    this.seenMessageIds.clear();
+    this.streamStartTimeMs = null;
   }
 
   // ============================================================
@@ -416,26 +576,71 @@ export class LiveChatFetcher {
     return null;
   }
 
-  private parseActions(data: Record<string, unknown>): ChatMessage[] {
+  private parseActions(data: Record<string, unknown>): {
+    messages: ChatMessage[];
+    bannerEvents: BannerEvent[];
+    updates: ChatItemUpdate[];
+  } {
     const messages: ChatMessage[] = [];
+    const bannerEvents: BannerEvent[] = [];
+    const updates: ChatItemUpdate[] = [];
 
     const liveChatContinuation = data.continuationContents as Record<string, unknown> | undefined;
     const liveChatRenderer = liveChatContinuation?.liveChatContinuation as Record<string, unknown> | undefined;
     const actions = liveChatRenderer?.actions as ChatAction[] | undefined;
 
-    if (!actions) return messages;
+    if (!actions) return { messages, bannerEvents, updates };
 
     for (const action of actions) {
-      const item = action.addChatItemAction?.item;
-      if (!item) continue;
+      if (action.addChatItemAction || action.addLiveChatTickerItemAction) {
+        const item = action.addChatItemAction?.item;
+        const msg = item ? this.parseItem(item) : this.bannerParser.parseTickerItem(action, 0);
+        if (msg && !this.seenMessageIds.has(msg.id)) {
+          this.seenMessageIds.add(msg.id);
+          messages.push(msg);
+        }
+        continue;
+      }
+
+      const update = this.parseUpdate(action);
+      if (update) {
+        updates.push(update);
+        continue;
+      }
+
+      const bannerEvent = this.bannerParser.parseEvent(action, 0);
+      if (bannerEvent) {
+        bannerEvents.push(bannerEvent);
+      }
+    }
+
+    return { messages, bannerEvents, updates };
+  }
 
-      const msg = this.parseItem(item);
-      if (msg) {
-        messages.push(msg);
+  /**
+   * Parse moderator deletions, bans and message replacements
+   */
+  private parseUpdate(action: ChatAction): ChatItemUpdate | null {
+    const deletedId = action.markChatItemAsDeletedAction?.targetItemId;
+    if (deletedId) {
+      return { type: "delete", id: deletedId };
+    }
+
+    const bannedChannelId = action.markChatItemsByAuthorAsDeletedAction?.externalChannelId;
+    if (bannedChannelId) {
+      return { type: "delete-author", channelId: bannedChannelId };
+    }
+
+    const replace = action.replaceChatItemAction;
+    if (replace?.targetItemId && replace.replacementItem) {
+      const message = this.parseItem(replace.replacementItem);
+      if (message) {
+        // Keep the original ID so the message stays in place
+        return { type: "replace", id: replace.targetItemId, message: { ...message, id: replace.targetItemId } };
       }
     }
 
-    return messages;
+    return null;
   }
 
   private parseItem(item: ChatItem): ChatMessage | null {
@@ -451,7 +656,7 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "text" as MessageType,
-        timestamp: 0, // Live messages don't have video-relative timestamps
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: r.authorName?.simpleText || "Unknown",
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
@@ -470,7 +675,7 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "superchat" as MessageType,
-        timestamp: 0,
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: r.authorName?.simpleText || "Unknown",
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
@@ -490,7 +695,7 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "supersticker" as MessageType,
-        timestamp: 0,
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: r.authorName?.simpleText || "Unknown",
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
@@ -515,7 +720,7 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "membership" as MessageType,
-        timestamp: 0,
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: r.authorName?.simpleText || "Unknown",
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
@@ -535,11 +740,12 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "gift" as MessageType,
-        timestamp: 0,
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: r.authorName?.simpleText || "Unknown",
         authorPhoto: this.getBestThumbnail(r.authorPhoto?.thumbnails),
         authorChannelId: r.authorExternalChannelId,
         message: giftText || "(Gift Membership)",
+        giftCount: this.parseGiftCount(giftText),
         timestampText: this.formatTimestampUsec(r.timestampUsec),
       };
     }
@@ -554,7 +760,7 @@ export class LiveChatFetcher {
       return {
         id: r.id || `live-${index}`,
         type: "system" as MessageType,
-        timestamp: 0,
+        timestamp: this.toStreamOffset(r.timestampUsec),
         author: "YouTube",
         message: text,
         messageRuns: messageRuns.length > 0 ? messageRuns : undefined,
@@ -636,12 +842,30 @@ export class LiveChatFetcher {
     return result.length > 0 ? result : undefined;
   }
 
+  /**
+   * Number of memberships in a gift announcement ("Gifted 5 … memberships"), undefined if none is given
+   */
+  private parseGiftCount(giftText: string): number | undefined {
+    const match = giftText.match(/\d[\d,.]*/);
+    const count = match ? Number.parseInt(match[0].replace(/[,.]/g, ""), 10) : Number.NaN;
+    return count > 0 ? count : undefined;
+  }
+
   private getBestThumbnail(thumbnails: Thumbnail[] | undefined): string | undefined {
     if (!thumbnails?.length) return undefined;
     const sorted = [...thumbnails].sort((a, b) => (b.width || 0) - (a.width || 0));
     return sorted[0]?.url;
   }
 
+  /**
+   * Seconds since the broadcast started, matching replay offsets (0 when the start time is unknown)
+   */
+  private toStreamOffset(timestampUsec: string | undefined): number {
+    const usec = timestampUsec ? Number.parseInt(timestampUsec, 10) : Number.NaN;
+    if (this.streamStartTimeMs === null || Number.isNaN(usec)) return 0;
+    return Math.max(0, (usec / 1000 - this.streamStartTimeMs) / 1000);
+  }
+
   /**
    * Convert timestampUsec (microseconds since epoch) to readable time string (HH:MM:SS)
    */
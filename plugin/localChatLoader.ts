@@ -0,0 +1,142 @@
+/**
+ * Local Chat Loader - Loads chat replay from yt-dlp live_chat.json sidecar files
+ * Files are produced by `yt-dlp --write-subs --sub-langs live_chat` and sit next to the video:
+ *   <video>.mp4 → <video>.live_chat.json
+ *
+ * Each line of the file is a JSON object in the replay format (replayChatItemAction),
+ * so parsing is delegated to the archived chat parser.
+ */
+
+import type { ChatAction } from "./archivedChatFetcher";
+import { type ChatBanner, type ChatMessage, LiveChatLineSchema } from "./schemas";
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface IINAFile {
+  exists(path: string): boolean;
+  read(path: string, options?: Record<string, never>): string | undefined;
+}
+
+interface ReplayActionParser {
+  parseReplayActions(actions: ChatAction[]): { messages: ChatMessage[]; banners: ChatBanner[] };
+}
+
+// Result type
+export type LocalChatResult =
+  | { success: true; messages: ChatMessage[]; banners: ChatBanner[]; skippedLines: number }
+  | { success: false; error: string };
+
+const SIDECAR_SUFFIX = ".live_chat.json";
+
+/**
+ * Local Chat Loader class
+ * Finds and parses yt-dlp live_chat.json files for local media
+ */
+export class LocalChatLoader {
+  private file: IINAFile;
+  private parser: ReplayActionParser;
+  private logger: IINAConsole;
+
+  constructor(file: IINAFile, parser: ReplayActionParser, logger: IINAConsole) {
+    this.file = file;
+    this.parser = parser;
+    this.logger = logger;
+  }
+
+  /**
+   * Convert a player URL (file:// URL or plain path) to a local file path
+   * Returns null for network resources
+   */
+  toLocalPath(url: string): string | null {
+    if (url.startsWith("file://")) {
+      try {
+        return decodeURIComponent(url.slice("file://".length));
+      } catch {
+        return null;
+      }
+    }
+    if (url.startsWith("/")) {
+      return url;
+    }
+    return null;
+  }
+
+  /**
+   * Find the live_chat.json sidecar for a local media file
+   */
+  findSidecar(mediaPath: string): string | null {
+    const slashIndex = mediaPath.lastIndexOf("/");
+    const dotIndex = mediaPath.lastIndexOf(".");
+    const basePath = dotIndex > slashIndex ? mediaPath.slice(0, dotIndex) : mediaPath;
+
+    const candidates = [`${basePath}${SIDECAR_SUFFIX}`, `${mediaPath}${SIDECAR_SUFFIX}`];
+
+    for (const candidate of candidates) {
+      if (this.file.exists(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Load and parse all messages from a live_chat.json file
+   */
+  load(chatPath: string): LocalChatResult {
+    this.logger.log(`[LocalChatLoader] Loading ${chatPath}`);
+
+    const content = this.file.read(chatPath);
+    if (content === undefined) {
+      return { success: false, error: `Could not read ${chatPath}` };
+    }
+
+    const actions: ChatAction[] = [];
+    let invalidLines = 0;
+
+    for (const line of content.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      let json: unknown;
+      try {
+        json = JSON.parse(trimmed);
+      } catch {
+        invalidLines++;
+        continue;
+      }
+
+      const parseResult = LiveChatLineSchema.safeParse(json);
+      if (!parseResult.success) {
+        invalidLines++;
+        continue;
+      }
+
+      const replay = parseResult.data.replayChatItemAction;
+      if (!replay) continue;
+
+      // Schema-validated lines share the replay action shape used by the API
+      actions.push({
+        replayChatItemAction: {
+          actions: replay.actions,
+          videoOffsetTimeMsec:
+            replay.videoOffsetTimeMsec !== undefined ? String(replay.videoOffsetTimeMsec) : undefined,
+        },
+      });
+    }
+
+    if (invalidLines > 0) {
+      this.logger.warn(`[LocalChatLoader] Skipped ${invalidLines} invalid lines`);
+    }
+
+    const { messages, banners } = this.parser.parseReplayActions(actions);
+    messages.sort((a, b) => a.timestamp - b.timestamp);
+
+    this.logger.log(`[LocalChatLoader] Loaded ${messages.length} messages, ${banners.length} banners`);
+    return { success: true, messages, banners, skippedLines: invalidLines };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Request Limiter - Caps concurrent requests to YouTube and backs off when throttled
+ * One instance is shared by every worker of a replay download, so a throttled response
+ * slows down all of them instead of each worker retrying on its own.
+ *
+ * The concurrency limit starts at the ceiling, halves on each throttled response
+ * and grows back by one after a run of successful requests.
+ */
+
+// Successful requests in a row before the limit grows by one
+const SUCCESSES_BEFORE_INCREASE = 20;
+// Pause after a throttled response, doubled while responses keep being throttled
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60_000;
+
+/**
+ * Request Limiter class
+ */
+export class RequestLimiter {
+  private ceiling: number;
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+  // When the last backoff started; throttled responses to requests sent before it are part of the same burst
+  private lastThrottledAt = 0;
+  private throttledInARow = 0;
+  private successesInARow = 0;
+
+  constructor(ceiling: number) {
+    this.ceiling = Math.max(1, ceiling);
+    this.limit = this.ceiling;
+  }
+
+  /**
+   * Change the ceiling (e.g. after the preference is edited)
+   * A lower limit from earlier throttling is kept and grows back as usual
+   */
+  setCeiling(ceiling: number): void {
+    this.ceiling = Math.max(1, ceiling);
+    this.limit = Math.min(this.limit, this.ceiling);
+  }
+
+  /**
+   * Run a request once a slot is free and no backoff is in effect
+   * @param isThrottled - Tells whether the result means YouTube is rate limiting us
+   */
+  async run<T>(task: () => Promise<T>, isThrottled: (result: T) => boolean): Promise<T> {
+    await this.acquire();
+    const startedAt = Date.now();
+    try {
+      const result = await task();
+      if (isThrottled(result)) {
+        this.onThrottled(startedAt);
+      } else {
+        this.onSuccess();
+      }
+      return result;
+    } finally {
+      this.release();
+    }
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const pauseMs = this.pausedUntil - Date.now();
+      if (pauseMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, pauseMs));
+        continue;
+      }
+      if (this.active < this.limit) {
+        this.active++;
+        return;
+      }
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private onSuccess(): void {
+    this.throttledInARow = 0;
+    if (this.limit >= this.ceiling) return;
+
+    this.successesInARow++;
+    if (this.successesInARow >= SUCCESSES_BEFORE_INCREASE) {
+      this.successesInARow = 0;
+      this.limit++;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private onThrottled(startedAt: number): void {
+    this.successesInARow = 0;
+    if (startedAt < this.lastThrottledAt) return;
+
+    this.throttledInARow++;
+    this.lastThrottledAt = Date.now();
+    this.limit = Math.max(1, Math.floor(this.limit / 2));
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (this.throttledInARow - 1), BACKOFF_MAX_MS);
+    this.pausedUntil = Math.max(this.pausedUntil, this.lastThrottledAt + delay);
+  }
+}
@@ -109,18 +109,93 @@ export const ChatMessageSchema = z.object({
 
   // Gift membership specific
   giftCount: z.number().optional(),
+
+  // Moderation (live chat)
+  deleted: z.boolean().optional(), // Deleted by a moderator, or the author was banned
 });
 
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 
+/**
+ * Schema for a poll choice
+ */
+export const PollChoiceSchema = z.object({
+  text: z.string(),
+  percentage: z.number().optional(), // 0-100, present once results are shown
+});
+
+export type PollChoice = z.infer<typeof PollChoiceSchema>;
+
+/**
+ * Schema for a pinned message or poll shown above chat
+ */
+export const ChatBannerSchema = z.object({
+  id: z.string(), // Banner action ID or poll panel ID (used by remove/close actions)
+  kind: z.enum(["pinned", "poll"]),
+  timestamp: z.number(), // Video offset in seconds when shown (0 for live)
+  endTimestamp: z.number().optional(), // Video offset when removed (archived only)
+  header: z.string().optional(), // e.g. "Pinned by Streamer"
+  message: ChatMessageSchema.optional(), // Pinned message content
+  text: z.string().optional(), // Plain banner text when there is no chat message
+  pollId: z.string().optional(), // Matches poll update actions
+  question: z.string().optional(),
+  choices: z.array(PollChoiceSchema).optional(),
+});
+
+export type ChatBanner = z.infer<typeof ChatBannerSchema>;
+
+/**
+ * Schema for a muted author (sent to sidebar as part of filters-update)
+ */
+export const MutedAuthorSchema = z.object({
+  channelId: z.string(),
+  name: z.string(),
+});
+
+export type MutedAuthor = z.infer<typeof MutedAuthorSchema>;
+
+/**
+ * Schema for per-window display filters (message type and badge toggles)
+ * Stored as JSON in preferences and sent to sidebar as display-filters-update
+ */
+export const DisplayFiltersSchema = z.object({
+  hiddenTypes: z.array(MessageTypeSchema), // Message types that are not shown
+  badges: z.array(BadgeTypeSchema), // If non-empty, only authors with one of these badges are shown
+});
+
+export type DisplayFilters = z.infer<typeof DisplayFiltersSchema>;
+
+// ============================================================
+// Webview Request Schemas (sent from sidebar)
+// ============================================================
+
+/**
+ * Schema for update-filters request (e.g. from a message's context menu)
+ */
+export const UpdateFiltersRequestSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("mute-author"), channelId: z.string(), name: z.string() }),
+  z.object({ action: z.literal("unmute-author"), channelId: z.string() }),
+  z.object({ action: z.literal("add-keyword"), keyword: z.string() }),
+]);
+
+/**
+ * Schema for seek-to request (from a message timestamp or a search result)
+ */
+export const SeekToRequestSchema = z.object({
+  timestamp: z.number(), // Video offset in seconds
+  withContext: z.boolean().optional(), // Start a few seconds earlier to see what led up to the message
+});
+
 // ============================================================
 // Input Schemas (yt-dlp live_chat.json parsing)
 // ============================================================
+// Objects are loose: YouTube adds fields all the time, and unknown ones are passed on to the parser
+// instead of being stripped (or failing the whole line)
 
 /**
  * Schema for thumbnail
  */
-const ThumbnailSchema = z.object({
+const ThumbnailSchema = z.looseObject({
   url: z.string(),
   width: z.number().optional(),
   height: z.number().optional(),
@@ -129,17 +204,17 @@ const ThumbnailSchema = z.object({
 /**
  * Schema for thumbnails array
  */
-const ThumbnailsSchema = z.object({
+const ThumbnailsSchema = z.looseObject({
   thumbnails: z.array(ThumbnailSchema),
 });
 
 /**
  * Schema for message runs (text and emoji) from yt-dlp
  */
-const YTMessageRunSchema = z.object({
+const YTMessageRunSchema = z.looseObject({
   text: z.string().optional(),
   emoji: z
-    .object({
+    .looseObject({
       emojiId: z.string().optional(),
       shortcuts: z.array(z.string()).optional(),
       image: ThumbnailsSchema.optional(),
@@ -151,30 +226,30 @@ const YTMessageRunSchema = z.object({
 /**
  * Schema for author name
  */
-const AuthorNameSchema = z.object({
+const AuthorNameSchema = z.looseObject({
   simpleText: z.string(),
 });
 
 /**
  * Schema for message content
  */
-const MessageContentSchema = z.object({
+const MessageContentSchema = z.looseObject({
   runs: z.array(YTMessageRunSchema),
 });
 
 /**
  * Schema for simple text
  */
-const SimpleTextSchema = z.object({
+const SimpleTextSchema = z.looseObject({
   simpleText: z.string(),
 });
 
 /**
  * Schema for author badge from yt-dlp
  */
-const YTAuthorBadgeRendererSchema = z.object({
+const YTAuthorBadgeRendererSchema = z.looseObject({
   icon: z
-    .object({
+    .looseObject({
       iconType: z.string(),
     })
     .optional(),
@@ -182,14 +257,14 @@ const YTAuthorBadgeRendererSchema = z.object({
   customThumbnail: ThumbnailsSchema.optional(),
 });
 
-const YTAuthorBadgeSchema = z.object({
+const YTAuthorBadgeSchema = z.looseObject({
   liveChatAuthorBadgeRenderer: YTAuthorBadgeRendererSchema,
 });
 
 /**
  * Schema for liveChatTextMessageRenderer
  */
-const LiveChatTextMessageRendererSchema = z.object({
+const LiveChatTextMessageRendererSchema = z.looseObject({
   id: z.string().optional(),
   authorName: AuthorNameSchema.optional(),
   authorPhoto: ThumbnailsSchema.optional(),
@@ -203,7 +278,7 @@ const LiveChatTextMessageRendererSchema = z.object({
 /**
  * Schema for liveChatPaidMessageRenderer (superchat)
  */
-const LiveChatPaidMessageRendererSchema = z.object({
+const LiveChatPaidMessageRendererSchema = z.looseObject({
   id: z.string().optional(),
   authorName: AuthorNameSchema.optional(),
   authorPhoto: ThumbnailsSchema.optional(),
@@ -223,7 +298,7 @@ const LiveChatPaidMessageRendererSchema = z.object({
 /**
  * Schema for liveChatPaidStickerRenderer (super sticker)
  */
-const LiveChatPaidStickerRendererSchema = z.object({
+const LiveChatPaidStickerRendererSchema = z.looseObject({
   id: z.string().optional(),
   authorName: AuthorNameSchema.optional(),
   authorPhoto: ThumbnailsSchema.optional(),
@@ -242,7 +317,7 @@ const LiveChatPaidStickerRendererSchema = z.object({
 /**
  * Schema for liveChatMembershipItemRenderer (membership events)
  */
-const LiveChatMembershipItemRendererSchema = z.object({
+const LiveChatMembershipItemRendererSchema = z.looseObject({
   id: z.string().optional(),
   authorName: AuthorNameSchema.optional(),
   authorPhoto: ThumbnailsSchema.optional(),
@@ -257,16 +332,16 @@ const LiveChatMembershipItemRendererSchema = z.object({
 /**
  * Schema for liveChatSponsorshipsGiftPurchaseAnnouncementRenderer (gift membership)
  */
-const LiveChatSponsorshipsGiftPurchaseAnnouncementRendererSchema = z.object({
+const LiveChatSponsorshipsGiftPurchaseAnnouncementRendererSchema = z.looseObject({
   id: z.string().optional(),
   authorName: AuthorNameSchema.optional(),
   authorPhoto: ThumbnailsSchema.optional(),
   authorExternalChannelId: z.string().optional(),
   timestampUsec: z.string().optional(),
   header: z
-    .object({
+    .looseObject({
       liveChatSponsorshipsHeaderRenderer: z
-        .object({
+        .looseObject({
           primaryText: MessageContentSchema.optional(), // Gift count info
         })
         .optional(),
@@ -277,12 +352,12 @@ const LiveChatSponsorshipsGiftPurchaseAnnouncementRendererSchema = z.object({
 /**
  * Schema for liveChatViewerEngagementMessageRenderer (system messages)
  */
-const LiveChatViewerEngagementMessageRendererSchema = z.object({
+const LiveChatViewerEngagementMessageRendererSchema = z.looseObject({
   id: z.string().optional(),
   timestampUsec: z.string().optional(),
   message: MessageContentSchema.optional(),
   icon: z
-    .object({
+    .looseObject({
       iconType: z.string().optional(),
     })
     .optional(),
@@ -291,7 +366,7 @@ const LiveChatViewerEngagementMessageRendererSchema = z.object({
 /**
  * Schema for chat item (all possible renderers)
  */
-const ChatItemSchema = z.object({
+const ChatItemSchema = z.looseObject({
   liveChatTextMessageRenderer: LiveChatTextMessageRendererSchema.optional(),
   liveChatPaidMessageRenderer: LiveChatPaidMessageRendererSchema.optional(),
   liveChatPaidStickerRenderer: LiveChatPaidStickerRendererSchema.optional(),
@@ -304,21 +379,28 @@ const ChatItemSchema = z.object({
 /**
  * Schema for addChatItemAction
  */
-const AddChatItemActionSchema = z.object({
+const AddChatItemActionSchema = z.looseObject({
   item: ChatItemSchema,
 });
 
 /**
  * Schema for action
  */
-const ActionSchema = z.object({
+const ActionSchema = z.looseObject({
   addChatItemAction: AddChatItemActionSchema.optional(),
+  // Banner, poll and ticker actions are passed through to the banner parser as-is
+  addBannerToLiveChatCommand: z.record(z.string(), z.unknown()).optional(),
+  removeBannerForLiveChatCommand: z.record(z.string(), z.unknown()).optional(),
+  showLiveChatActionPanelAction: z.record(z.string(), z.unknown()).optional(),
+  updateLiveChatPollAction: z.record(z.string(), z.unknown()).optional(),
+  closeLiveChatActionPanelAction: z.record(z.string(), z.unknown()).optional(),
+  addLiveChatTickerItemAction: z.record(z.string(), z.unknown()).optional(),
 });
 
 /**
  * Schema for replayChatItemAction
  */
-const ReplayChatItemActionSchema = z.object({
+const ReplayChatItemActionSchema = z.looseObject({
   videoOffsetTimeMsec: z.union([z.string(), z.number()]).optional(),
   actions: z.array(ActionSchema),
 });
@@ -326,6 +408,6 @@ const ReplayChatItemActionSchema = z.object({
 /**
  * Schema for a line in the live_chat.json file
  */
-export const LiveChatLineSchema = z.object({
+export const LiveChatLineSchema = z.looseObject({
   replayChatItemAction: ReplayChatItemActionSchema.optional(),
 });
@@ -0,0 +1,133 @@
+/**
+ * Super Chat Ledger - Collects Super Chats and Super Stickers with parsed amounts
+ * YouTube only provides formatted amounts ("$5.00", "¥1,000", "€2,00"), so they are split into currency and value
+ */
+
+import type { ChatMessage } from "./schemas";
+
+export interface ParsedAmount {
+  currency: string; // Symbol or code as shown by YouTube, e.g. "$", "CA$", "€", "PHP"
+  value: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: "superchat" | "supersticker";
+  timestamp: number;
+  timestampText?: string;
+  author: string;
+  authorChannelId?: string;
+  message: string;
+  amount: string; // Original text
+  currency: string | null; // null if the amount could not be parsed
+  value: number | null;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  total: number;
+  count: number;
+}
+
+export interface SuperChatLedgerSummary {
+  entries: LedgerEntry[];
+  totals: CurrencyTotal[]; // Sorted by count, most used currency first
+}
+
+/**
+ * Super Chat Ledger class
+ */
+export class SuperChatLedger {
+  /**
+   * Build the ledger from all chat messages received so far
+   */
+  build(messages: ChatMessage[]): SuperChatLedgerSummary {
+    const entries: LedgerEntry[] = [];
+    const totals = new Map<string, CurrencyTotal>();
+
+    for (const msg of messages) {
+      if ((msg.type !== "superchat" && msg.type !== "supersticker") || !msg.amount) continue;
+
+      const parsed = this.parseAmount(msg.amount);
+      entries.push({
+        id: msg.id,
+        type: msg.type,
+        timestamp: msg.timestamp,
+        timestampText: msg.timestampText,
+        author: msg.author,
+        authorChannelId: msg.authorChannelId,
+        message: msg.message,
+        amount: msg.amount,
+        currency: parsed?.currency ?? null,
+        value: parsed?.value ?? null,
+      });
+
+      if (parsed) {
+        const total = totals.get(parsed.currency) ?? { currency: parsed.currency, total: 0, count: 0 };
+        total.total += parsed.value;
+        total.count++;
+        totals.set(parsed.currency, total);
+      }
+    }
+
+    return {
+      entries,
+      totals: [...totals.values()].sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * Split a formatted amount into currency and numeric value
+   * The decimal separator is guessed: with both "," and "." the last one is decimal;
+   * with only one kind, it is decimal unless followed by exactly three digits ("¥1,000")
+   */
+  parseAmount(amount: string): ParsedAmount | null {
+    const text = amount.replace(/ /g, " ").trim();
+    const numberMatch = text.match(/\d[\d.,' ]*\d|\d/);
+    if (!numberMatch || numberMatch.index === undefined) {
+      return null;
+    }
+
+    const currency = (text.slice(0, numberMatch.index) + text.slice(numberMatch.index + numberMatch[0].length)).trim();
+    if (!currency) {
+      return null;
+    }
+
+    const value = this.parseNumber(numberMatch[0].replace(/[' ]/g, ""));
+    if (value === null) {
+      return null;
+    }
+
+    return { currency, value };
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private parseNumber(digits: string): number | null {
+    const lastComma = digits.lastIndexOf(",");
+    const lastDot = digits.lastIndexOf(".");
+
+    let decimalSeparator: "," | "." | null = null;
+    if (lastComma !== -1 && lastDot !== -1) {
+      decimalSeparator = lastComma > lastDot ? "," : ".";
+    } else if (lastComma !== -1 || lastDot !== -1) {
+      const separator = lastComma !== -1 ? "," : ".";
+      const occurrences = digits.split(separator).length - 1;
+      const fractionLength = digits.length - digits.lastIndexOf(separator) - 1;
+      if (occurrences === 1 && fractionLength !== 3) {
+        decimalSeparator = separator;
+      }
+    }
+
+    let normalized = digits.replace(/[.,]/g, "");
+    if (decimalSeparator !== null) {
+      const index = digits.lastIndexOf(decimalSeparator);
+      normalized = `${digits.slice(0, index).replace(/[.,]/g, "")}.${digits.slice(index + 1)}`;
+    }
+
+    const value = Number.parseFloat(normalized);
+    return Number.isFinite(value) ? value : null;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Watch Page Fallback - Gets a video's watch page data when the watch page can't be used
+ * Shared by the live and archived fetchers, for consent interstitials (EU networks) and unfamiliar layouts.
+ *
+ * - The embed page provides the API key, language, region and visitor data
+ * - The innertube next endpoint returns the same data as the watch page's ytInitialData
+ * - The player endpoint returns the video details and live broadcast fields
+ *
+ * Responses are requested with prettyPrint=false, so their JSON is as compact as the watch page's
+ * and the fetchers' watch page patterns match them.
+ */
+
+// Each fetcher passes its own transport (iina.http or curl), which adds the user's cookies
+export interface FallbackHttpResult {
+  success: boolean;
+  body: string;
+  error?: string;
+}
+
+export type FallbackGet = (url: string) => Promise<FallbackHttpResult>;
+export type FallbackPost = (
+  url: string,
+  data: Record<string, unknown>,
+  headers: Record<string, string>,
+) => Promise<FallbackHttpResult>;
+
+// Innertube context for the regular web client, which serves chat
+export interface WebClientContext {
+  client: {
+    hl: string;
+    gl: string;
+    clientName: string;
+    clientVersion: string;
+    visitorData?: string;
+  };
+}
+
+export type WatchDataFallbackResult =
+  | {
+      success: true;
+      apiKey: string;
+      context: WebClientContext;
+      // Headers that identify the web client to innertube
+      headers: Record<string, string>;
+      loggedIn: boolean | null;
+      nextText: string;
+      playerText: string; // Empty if the player request failed
+    }
+  | { success: false; error: string };
+
+// Web client version used only when no page tells us the current one
+export const DEFAULT_WEB_CLIENT_VERSION = "2.20231219.04.00";
+
+interface EmbedYtCfg {
+  INNERTUBE_API_KEY?: string;
+  INNERTUBE_CONTEXT?: { client?: Partial<WebClientContext["client"]> };
+  HL?: string;
+  GL?: string;
+  VISITOR_DATA?: string;
+  LOGGED_IN?: boolean;
+}
+
+/**
+ * Watch Page Fallback class
+ */
+export class WatchPageFallback {
+  private get: FallbackGet;
+  private post: FallbackPost;
+
+  constructor(get: FallbackGet, post: FallbackPost) {
+    this.get = get;
+    this.post = post;
+  }
+
+  /**
+   * Fetch the embed page, then the next and player responses for the video
+   * Only a failed player request is tolerated, since the fetchers have defaults for what it provides
+   */
+  async fetch(videoId: string): Promise<WatchDataFallbackResult> {
+    const embedResponse = await this.get(`https://www.youtube.com/embed/${videoId}`);
+    if (!embedResponse.success) {
+      return { success: false, error: embedResponse.error || "Failed to fetch embed page" };
+    }
+
+    const html = embedResponse.body;
+    const ytcfg = this.extractYtcfg(html);
+    const apiKey = ytcfg?.INNERTUBE_API_KEY ?? html.match(/"INNERTUBE_API_KEY":"([^"]+)"/)?.[1];
+    if (!apiKey) {
+      return { success: false, error: "Could not find API key in embed page" };
+    }
+
+    const context = this.buildContext(html, ytcfg);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-YouTube-Client-Name": "1",
+      "X-YouTube-Client-Version": context.client.clientVersion,
+      Origin: "https://www.youtube.com",
+    };
+    if (context.client.visitorData) {
+      headers["X-Goog-Visitor-Id"] = context.client.visitorData;
+    }
+
+    const nextResponse = await this.post(
+      `https://www.youtube.com/youtubei/v1/next?key=${apiKey}&prettyPrint=false`,
+      { context, videoId },
+      headers,
+    );
+    if (!nextResponse.success || !nextResponse.body) {
+      return { success: false, error: nextResponse.error || "Empty response from next endpoint" };
+    }
+
+    const playerResponse = await this.post(
+      `https://www.youtube.com/youtubei/v1/player?key=${apiKey}&prettyPrint=false`,
+      { context, videoId },
+      headers,
+    );
+
+    const loggedIn = ytcfg?.LOGGED_IN ?? html.match(/"LOGGED_IN":(true|false)/)?.[1];
+    return {
+      success: true,
+      apiKey,
+      context,
+      headers,
+      loggedIn: loggedIn === undefined ? null : loggedIn === true || loggedIn === "true",
+      nextText: nextResponse.body,
+      playerText: playerResponse.success ? playerResponse.body : "",
+    };
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private extractYtcfg(html: string): EmbedYtCfg | null {
+    const match = html.match(/ytcfg\.set\s*\(\s*(\{.+?\})\s*\)\s*;/);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(match[1]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Web client context with the embed page's language, region and visitor data
+   * The embed page configures the embedded player client, so its version only applies if it is the web
+   * client; otherwise a web client version mentioned elsewhere on the page is used
+   */
+  private buildContext(html: string, ytcfg: EmbedYtCfg | null): WebClientContext {
+    const embedClient = ytcfg?.INNERTUBE_CONTEXT?.client;
+    const webClientVersion =
+      (embedClient?.clientName === "WEB" ? embedClient.clientVersion : undefined) ??
+      html.match(/"clientName":"WEB","clientVersion":"([^"]+)"/)?.[1] ??
+      DEFAULT_WEB_CLIENT_VERSION;
+
+    return {
+      client: {
+        hl: embedClient?.hl ?? ytcfg?.HL ?? "en",
+        gl: embedClient?.gl ?? ytcfg?.GL ?? "US",
+        clientName: "WEB",
+        clientVersion: webClientVersion,
+        visitorData: embedClient?.visitorData ?? ytcfg?.VISITOR_DATA,
+      },
+    };
+  }
+}
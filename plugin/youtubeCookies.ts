@@ -0,0 +1,368 @@
+/**
+ * YouTube Cookies - Signs requests in with the user's YouTube cookies (members-only and age-restricted chat)
+ *
+ * Supported files (the cookiesFile preference):
+ * - Netscape cookies.txt, the format yt-dlp reads and writes
+ *   (export from any browser with: yt-dlp --cookies-from-browser chrome --cookies cookies.txt)
+ * - Firefox cookies.sqlite, read with the sqlite3 command line tool
+ *
+ * Signed-in requests carry the cookies and a SAPISIDHASH Authorization header, like the YouTube web client.
+ * Every request also carries a consent cookie, so EU networks get pages instead of the consent interstitial.
+ */
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface ExecResult {
+  status: number;
+  stdout: string;
+  stderr: string;
+}
+
+interface IINAUtils {
+  exec(path: string, args: string[], cwd?: string): Promise<ExecResult>;
+}
+
+interface IINAFile {
+  exists(path: string): boolean;
+  read(path: string, options?: Record<string, never>): string | undefined;
+}
+
+interface Cookie {
+  domain: string;
+  name: string;
+  value: string;
+}
+
+// Sign-in state reported to the webviews (null when no cookies file is set)
+export interface AuthStatus {
+  signedIn: boolean;
+  message?: string;
+}
+
+const YOUTUBE_ORIGIN = "https://www.youtube.com";
+const SQLITE3_PATH = "/usr/bin/sqlite3";
+// Netscape files mark HttpOnly cookies by prefixing the domain
+const HTTP_ONLY_PREFIX = "#HttpOnly_";
+// Cookie consent as set by yt-dlp; SOCS values starting with "CAA" mean consent was not given
+const CONSENT_COOKIE: Cookie = { domain: ".youtube.com", name: "SOCS", value: "CAI" };
+
+/**
+ * Whether a youtube.com response is the cookie consent interstitial (consent.youtube.com)
+ * Only meaningful for pages that are missing the data we expected
+ */
+export const isConsentPage = (html: string): boolean =>
+  /consent\.youtube\.com|Before you continue to YouTube/.test(html);
+
+/**
+ * SHA-1 of an ASCII string as hex (cookie values and origins are ASCII)
+ * JavaScriptCore in IINA has no Web Crypto, so this is a plain implementation
+ */
+const sha1Hex = (message: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < message.length; i++) {
+    bytes.push(message.charCodeAt(i) & 0xff);
+  }
+  const bitLength = bytes.length * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0);
+  }
+  // 64-bit big-endian length; the upper 32 bits are always zero for these short inputs
+  bytes.push(
+    0,
+    0,
+    0,
+    0,
+    (bitLength >>> 24) & 0xff,
+    (bitLength >>> 16) & 0xff,
+    (bitLength >>> 8) & 0xff,
+    bitLength & 0xff,
+  );
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Array<number>(80);
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+  }
+
+  return h.map((word) => (word >>> 0).toString(16).padStart(8, "0")).join("");
+};
+
+/**
+ * YouTube Cookies class
+ * Cookies are read once per file and kept until invalidate() is called (e.g. when a new file is opened)
+ */
+export class YouTubeCookies {
+  private file: IINAFile;
+  private utils: IINAUtils;
+  private logger: IINAConsole;
+  private getCookiesPath: () => string;
+  private onAuthStatusChange: (status: AuthStatus | null) => void;
+  // Shared by concurrent requests so the file is read once
+  private cookies: Promise<Cookie[]> | null = null;
+  private status: AuthStatus | null = null;
+
+  constructor(
+    file: IINAFile,
+    utils: IINAUtils,
+    logger: IINAConsole,
+    getCookiesPath: () => string,
+    onAuthStatusChange: (status: AuthStatus | null) => void,
+  ) {
+    this.file = file;
+    this.utils = utils;
+    this.logger = logger;
+    this.getCookiesPath = getCookiesPath;
+    this.onAuthStatusChange = onAuthStatusChange;
+  }
+
+  /**
+   * Whether a cookies file is set in preferences
+   */
+  isConfigured(): boolean {
+    return this.getCookiesPath().trim() !== "";
+  }
+
+  /**
+   * Current sign-in state (null until a page reports it, or when no cookies file is set)
+   */
+  getAuthStatus(): AuthStatus | null {
+    return this.status;
+  }
+
+  /**
+   * Headers for a request to youtube.com: the consent cookie, plus the sign-in cookies and
+   * authorization when a cookies file is set
+   */
+  async getRequestHeaders(): Promise<Record<string, string>> {
+    this.cookies ??= this.load();
+    const cookies = await this.cookies;
+
+    const hasConsent = cookies.some((cookie) => cookie.name === CONSENT_COOKIE.name && !cookie.value.startsWith("CAA"));
+    const sent = hasConsent
+      ? cookies
+      : [...cookies.filter((cookie) => cookie.name !== CONSENT_COOKIE.name), CONSENT_COOKIE];
+    const headers: Record<string, string> = {
+      Cookie: sent.map((cookie) => `${cookie.name}=${cookie.value}`).join("; "),
+    };
+    if (cookies.length === 0) {
+      return headers;
+    }
+
+    headers["X-Origin"] = YOUTUBE_ORIGIN;
+    headers["X-Goog-AuthUser"] = "0";
+
+    // Without SAPISID the cookies can still identify the session, but the API won't treat it as signed in
+    const sapisid = cookies.find((cookie) => cookie.name === "SAPISID" || cookie.name === "__Secure-3PAPISID");
+    if (sapisid) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const hash = sha1Hex(`${timestamp} ${sapisid.value} ${YOUTUBE_ORIGIN}`);
+      headers.Authorization = `SAPISIDHASH ${timestamp}_${hash}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * The same cookies as yt-dlp arguments
+   */
+  getYtdlpArgs(): string[] {
+    const path = this.getCookiesPath().trim();
+    if (!path) {
+      return [];
+    }
+    if (this.isFirefoxDatabase(path)) {
+      // yt-dlp takes the profile directory that contains cookies.sqlite
+      return ["--cookies-from-browser", `firefox:${path.slice(0, path.lastIndexOf("/"))}`];
+    }
+    return ["--cookies", path];
+  }
+
+  /**
+   * Record whether YouTube saw the request as signed in (the LOGGED_IN flag of a watch page)
+   * Ignored without a cookies file, since anonymous requests are expected then
+   */
+  reportSignedIn(signedIn: boolean): void {
+    // A file that could not be read already explains why requests are anonymous
+    if (!this.isConfigured() || this.status?.signedIn === false) {
+      return;
+    }
+    this.setStatus(
+      signedIn
+        ? { signedIn: true }
+        : {
+            signedIn: false,
+            message:
+              "Not signed in to YouTube. Your cookies may have expired; export them again to load members-only chat.",
+          },
+    );
+  }
+
+  /**
+   * Forget loaded cookies and the sign-in state (call when preferences may have changed)
+   */
+  invalidate(): void {
+    this.cookies = null;
+    this.setStatus(null);
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private setStatus(status: AuthStatus | null): void {
+    if (status?.signedIn === this.status?.signedIn && status?.message === this.status?.message) {
+      return;
+    }
+    this.status = status;
+    this.onAuthStatusChange(status);
+  }
+
+  private async load(): Promise<Cookie[]> {
+    const path = this.getCookiesPath().trim();
+    if (!path) {
+      return [];
+    }
+
+    const result = this.isFirefoxDatabase(path) ? await this.readFirefoxDatabase(path) : this.readNetscapeFile(path);
+    if (!result.success) {
+      this.logger.warn(`[YouTubeCookies] ${result.error}`);
+      this.setStatus({ signedIn: false, message: `Could not read YouTube cookies: ${result.error}` });
+      return [];
+    }
+
+    if (result.cookies.length === 0) {
+      this.setStatus({ signedIn: false, message: `No YouTube cookies found in ${path}` });
+    }
+    this.logger.log(`[YouTubeCookies] Loaded ${result.cookies.length} cookies from ${path}`);
+    return result.cookies;
+  }
+
+  private isFirefoxDatabase(path: string): boolean {
+    return path.endsWith(".sqlite");
+  }
+
+  private isYouTubeDomain(domain: string): boolean {
+    const host = domain.replace(/^\./, "");
+    return host === "youtube.com" || host.endsWith(".youtube.com");
+  }
+
+  /**
+   * Parse a Netscape cookies.txt: domain, subdomains flag, path, secure flag, expiry, name, value (tab separated)
+   */
+  private readNetscapeFile(path: string): { success: true; cookies: Cookie[] } | { success: false; error: string } {
+    if (!this.file.exists(path)) {
+      return { success: false, error: `${path} does not exist` };
+    }
+    const content = this.file.read(path);
+    if (content === undefined) {
+      return { success: false, error: `${path} could not be read` };
+    }
+
+    const nowSeconds = Date.now() / 1000;
+    const cookies: Cookie[] = [];
+
+    for (const rawLine of content.split("\n")) {
+      let line = rawLine.replace(/\r$/, "");
+      if (line.startsWith(HTTP_ONLY_PREFIX)) {
+        line = line.slice(HTTP_ONLY_PREFIX.length);
+      } else if (line.trim() === "" || line.startsWith("#")) {
+        continue;
+      }
+
+      const fields = line.split("\t");
+      if (fields.length < 7) continue;
+
+      const [domain, , , , expires, name, value] = fields;
+      const expiresAt = Number(expires);
+      // Expiry 0 marks a session cookie
+      if (!this.isYouTubeDomain(domain) || (expiresAt > 0 && expiresAt < nowSeconds)) continue;
+
+      cookies.push({ domain, name, value });
+    }
+
+    return { success: true, cookies };
+  }
+
+  /**
+   * Read youtube.com cookies from a Firefox profile database
+   * Opened as immutable so it can be read while Firefox has it locked
+   */
+  private async readFirefoxDatabase(
+    path: string,
+  ): Promise<{ success: true; cookies: Cookie[] } | { success: false; error: string }> {
+    try {
+      const result = await this.utils.exec(SQLITE3_PATH, [
+        "-separator",
+        "\t",
+        `file:${path}?immutable=1`,
+        "SELECT host, expiry, name, value FROM moz_cookies WHERE host LIKE '%youtube.com'",
+      ]);
+      if (result.status !== 0) {
+        return { success: false, error: `sqlite3 failed: ${result.stderr.trim()}` };
+      }
+
+      const nowSeconds = Date.now() / 1000;
+      const cookies: Cookie[] = [];
+      for (const line of result.stdout.split("\n")) {
+        const fields = line.split("\t");
+        if (fields.length < 4) continue;
+
+        const [domain, expiry, name, value] = fields;
+        // Newer Firefox versions store the expiry in milliseconds
+        const expiresAt = Number(expiry) > 1e11 ? Number(expiry) / 1000 : Number(expiry);
+        if (!this.isYouTubeDomain(domain) || (expiresAt > 0 && expiresAt < nowSeconds)) continue;
+
+        cookies.push({ domain, name, value });
+      }
+
+      return { success: true, cookies };
+    } catch (error) {
+      return { success: false, error: `sqlite3 error: ${error}` };
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * yt-dlp Resolver - Finds the yt-dlp executable and checks its version
+ * Shared by live detection (LiveChatFetcher) and the chat availability check (entry).
+ *
+ * Lookup order:
+ * 1. The path set in preferences (ytdlpPath), if any
+ * 2. Common install locations (Homebrew on Apple Silicon and Intel, system packages)
+ * 3. Plain "yt-dlp", left to exec to find on the PATH (GUI apps often get a PATH where fileInPath fails)
+ */
+
+// Types for IINA API
+interface IINAConsole {
+  log(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+interface ExecResult {
+  status: number;
+  stdout: string;
+  stderr: string;
+}
+
+interface IINAUtils {
+  exec(path: string, args: string[], cwd?: string): Promise<ExecResult>;
+  fileInPath(path: string): boolean;
+}
+
+export type YtdlpResult =
+  | { success: true; path: string; version: string; isOutdated: boolean }
+  | { success: false; error: string };
+
+const COMMON_PATHS = [
+  "/opt/homebrew/bin/yt-dlp", // macOS Apple Silicon (Homebrew)
+  "/usr/local/bin/yt-dlp", // macOS Intel (Homebrew) / Linux
+  "/usr/bin/yt-dlp", // Linux system package
+];
+
+// Run as is when no known location has yt-dlp
+const FALLBACK_COMMAND = "yt-dlp";
+
+// YouTube changes frequently; older releases tend to fail on live streams
+export const MIN_YTDLP_VERSION = "2025.01.15";
+
+/**
+ * yt-dlp Resolver class
+ * The result is cached until invalidate() is called (e.g. when a new file is opened)
+ */
+export class YtdlpResolver {
+  private utils: IINAUtils;
+  private logger: IINAConsole;
+  private getConfiguredPath: () => string;
+  private cached: YtdlpResult | null = null;
+
+  constructor(utils: IINAUtils, logger: IINAConsole, getConfiguredPath: () => string) {
+    this.utils = utils;
+    this.logger = logger;
+    this.getConfiguredPath = getConfiguredPath;
+  }
+
+  /**
+   * Find yt-dlp and read its version
+   * A missing executable is not cached, so installing it takes effect on the next attempt
+   */
+  async resolve(): Promise<YtdlpResult> {
+    if (this.cached?.success) {
+      return this.cached;
+    }
+
+    const configuredPath = this.getConfiguredPath().trim();
+    const path = configuredPath || this.findPath();
+    // Only a failure of the last-resort lookup means yt-dlp isn't installed
+    const notFound: YtdlpResult = {
+      success: false,
+      error: "yt-dlp not found. Install it (brew install yt-dlp) or set its path in settings.",
+    };
+    const isFallback = path === FALLBACK_COMMAND;
+
+    try {
+      const result = await this.utils.exec(path, ["--version"]);
+      if (result.status !== 0) {
+        return isFallback
+          ? notFound
+          : { success: false, error: `yt-dlp at ${path} could not be run: ${result.stderr.trim()}` };
+      }
+
+      const version = result.stdout.trim();
+      const isOutdated = this.compareVersions(version, MIN_YTDLP_VERSION) < 0;
+      this.logger.log(`[YtdlpResolver] Using ${path} (${version}${isOutdated ? ", outdated" : ""})`);
+
+      this.cached = { success: true, path, version, isOutdated };
+      return this.cached;
+    } catch (error) {
+      return isFallback ? notFound : { success: false, error: `yt-dlp at ${path} could not be run: ${error}` };
+    }
+  }
+
+  /**
+   * Forget the resolved path (call when preferences may have changed)
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  // ============================================================
+  // Private Helper Methods
+  // ============================================================
+
+  private findPath(): string {
+    for (const path of COMMON_PATHS) {
+      if (this.utils.fileInPath(path)) {
+        return path;
+      }
+    }
+    return FALLBACK_COMMAND;
+  }
+
+  /**
+   * Compare date-based versions like "2025.06.30" or "2025.06.30.232839" (nightly)
+   */
+  private compareVersions(a: string, b: string): number {
+    const partsA = a.split(".").map((part) => Number.parseInt(part, 10) || 0);
+    const partsB = b.split(".").map((part) => Number.parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+      const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+}
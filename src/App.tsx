@@ -1,32 +1,182 @@
+import { useDeferredValue, useState } from "react";
+import { ActivityTimeline } from "./components/ActivityTimeline";
+import { BannerHeader } from "./components/BannerHeader";
+import { FilterBar } from "./components/FilterBar";
 import { MessageList } from "./components/MessageList";
+import { SearchResults } from "./components/SearchResults";
 import { StatusMessage } from "./components/StatusMessage";
+import { SuperChatLedgerPanel } from "./components/SuperChatLedgerPanel";
+import { SuperChatTicker } from "./components/SuperChatTicker";
 import { Box, Flex } from "./components/ui";
 import { useIINAMessages } from "./hooks/useIINAMessages";
+import { filterBar, filterChip, searchInput } from "./recipes";
+import { formatOffset } from "./utils/time";
 
 const App = () => {
-  const { state, handleRetry } = useIINAMessages();
+  const {
+    state,
+    handleRetry,
+    handleCancelLoading,
+    handleMuteAuthor,
+    handleUnmuteAuthor,
+    handleAddKeywordFilter,
+    handleDisplayFiltersChange,
+    handleSeek,
+    handleExportSuperChats,
+  } = useIINAMessages();
+  const [view, setView] = useState<"chat" | "superchats">("chat");
+  const [searchQuery, setSearchQuery] = useState("");
+  // Keep typing responsive while searching large archives
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const isSearching = searchQuery.trim().length > 0;
+  const superChatCount = state.ledger?.entries.length ?? 0;
+  // Fall back to chat when the ledger is cleared (e.g. a new video is opened)
+  const showLedger = view === "superchats" && state.ledger !== null && superChatCount > 0;
+  // Live streams without DVR (or a known start time) can't be seeked, so times aren't clickable there
+  const seekHandler = state.isLive && !state.liveStatus?.seekable ? undefined : handleSeek;
 
   return (
     <Flex direction="column" height="100vh" backgroundColor="background" color="white">
-      <Box flex="1" overflow="hidden" padding="1rem">
-        {state.loading && <StatusMessage type="loading" message={state.progress?.message || "Loading chat data..."} />}
+      <Flex direction="column" flex="1" overflow="hidden" padding="1rem">
+        {state.loading && (
+          <StatusMessage
+            type="loading"
+            message={state.progress?.message || "Loading chat data..."}
+            onCancel={handleCancelLoading}
+            compact={state.messages.length > 0}
+          />
+        )}
 
         {state.error && <StatusMessage type="error" message={state.error} onRetry={handleRetry} />}
 
         {state.info && <StatusMessage type="info" message={state.info} />}
 
+        {state.warning && <StatusMessage type="info" message={state.warning} compact />}
+
+        {state.authStatus && !state.authStatus.signedIn && (
+          <StatusMessage type="info" message={state.authStatus.message ?? "Not signed in to YouTube"} compact />
+        )}
+
+        {state.liveStatus?.state === "reconnecting" && (
+          <StatusMessage
+            type="loading"
+            message={`Reconnecting to live chat… (attempt ${state.liveStatus.attempt})`}
+            compact={state.messages.length > 0}
+          />
+        )}
+
+        {state.liveStatus?.state === "ended" && <StatusMessage type="info" message="Stream ended" compact />}
+
+        {state.gaps.length > 0 && (
+          <StatusMessage
+            type="info"
+            message={`Chat is missing for ${state.gaps.map((gap) => `${formatOffset(gap.start)}–${formatOffset(gap.end)}`).join(", ")}`}
+            onRetry={handleRetry}
+            compact
+          />
+        )}
+
         {!state.loading && !state.error && !state.info && state.messages.length === 0 && (
           <StatusMessage type="info" message="No chat messages available" />
         )}
 
-        {state.messages.length > 0 && (
-          <MessageList
+        {state.activity && state.messages.length > 0 && (
+          <ActivityTimeline activity={state.activity} currentPosition={state.currentPosition} onSeek={handleSeek} />
+        )}
+
+        {superChatCount > 0 && (
+          <Box className={filterBar()} role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={!showLedger}
+              className={filterChip({ active: !showLedger })}
+              onClick={() => setView("chat")}
+            >
+              Chat
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={showLedger}
+              className={filterChip({ active: showLedger })}
+              onClick={() => setView("superchats")}
+            >
+              Super Chats ({superChatCount.toLocaleString()})
+            </button>
+          </Box>
+        )}
+
+        {showLedger && state.ledger && (
+          <Box flex="1" minHeight="0">
+            <SuperChatLedgerPanel ledger={state.ledger} onSeek={seekHandler} onExport={handleExportSuperChats} />
+          </Box>
+        )}
+
+        {state.messages.length > 0 && !showLedger && (
+          <input
+            type="search"
+            className={searchInput()}
+            placeholder="Search chat"
+            aria-label="Search chat"
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") setSearchQuery("");
+            }}
+          />
+        )}
+
+        {state.messages.length > 0 && !showLedger && !isSearching && (
+          <FilterBar
             messages={state.messages}
             currentPosition={state.currentPosition}
+            filters={state.filters}
+            displayFilters={state.displayFilters}
+            onChange={handleDisplayFiltersChange}
+            onUnmuteAuthor={handleUnmuteAuthor}
+          />
+        )}
+
+        {state.messages.length > 0 && !showLedger && isSearching && (
+          <Box flex="1" minHeight="0">
+            <SearchResults messages={state.messages} query={deferredSearchQuery} onSeek={seekHandler} />
+          </Box>
+        )}
+
+        {state.messages.length > 0 && !showLedger && !isSearching && (
+          <BannerHeader
+            banners={state.banners}
+            currentPosition={state.currentPosition}
+            isLive={state.isLive}
             preferences={state.preferences}
+            onSeek={handleSeek}
           />
         )}
-      </Box>
+
+        {state.messages.length > 0 && !showLedger && !isSearching && (
+          <SuperChatTicker
+            messages={state.messages}
+            currentPosition={state.currentPosition}
+            preferences={state.preferences}
+          />
+        )}
+
+        {state.messages.length > 0 && !showLedger && !isSearching && (
+          <Box flex="1" minHeight="0">
+            <MessageList
+              messages={state.messages}
+              currentPosition={state.currentPosition}
+              preferences={state.preferences}
+              filters={state.filters}
+              displayFilters={state.displayFilters}
+              onMuteAuthor={handleMuteAuthor}
+              onAddKeywordFilter={handleAddKeywordFilter}
+              onSeek={seekHandler}
+            />
+          </Box>
+        )}
+      </Flex>
     </Flex>
   );
 };
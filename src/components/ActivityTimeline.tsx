@@ -0,0 +1,96 @@
+import { type MouseEvent, useMemo } from "react";
+import { token } from "../../styled-system/tokens";
+import { activityPlayhead, activityTimeline } from "../recipes";
+import type { ActivityBucket, ChatActivity } from "../types";
+import { formatTotal } from "../utils/currency";
+import { formatOffset } from "../utils/time";
+
+interface ActivityTimelineProps {
+  activity: ChatActivity;
+  currentPosition: number | null;
+  onSeek: (timestamp: number, withContext: boolean) => void;
+}
+
+const describeBucket = (bucket: ActivityBucket): string => {
+  const parts = [`${formatOffset(bucket.start)} – ${bucket.messageCount.toLocaleString()} messages`];
+  if (bucket.superChatCount > 0) {
+    const amounts = bucket.superChatTotals.map(({ currency, total }) => formatTotal(currency, total));
+    parts.push(`${bucket.superChatCount} Super Chats${amounts.length > 0 ? ` (${amounts.join(" + ")})` : ""}`);
+  }
+  if (bucket.isEmojiBurst) {
+    parts.push(`emoji burst (${bucket.emojiCount})`);
+  }
+  return parts.join(", ");
+};
+
+/**
+ * Message density over the whole video: bar height is message count,
+ * yellow ticks mark Super Chats and pink bars mark emoji bursts
+ */
+export const ActivityTimeline = ({ activity, currentPosition, onSeek }: ActivityTimelineProps) => {
+  const { buckets, bucketSeconds, maxMessageCount, duration } = activity;
+  // Bars are equally wide even when the last bucket is partial, so they span whole buckets, not the duration
+  const span = buckets.length * bucketSeconds;
+
+  const bars = useMemo(
+    () =>
+      buckets.map((bucket, i) => ({
+        bucket,
+        x: i,
+        // Square root keeps quieter sections visible next to huge spikes
+        height: maxMessageCount > 0 ? Math.sqrt(bucket.messageCount / maxMessageCount) * 100 : 0,
+      })),
+    [buckets, maxMessageCount],
+  );
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    onSeek(Math.min(duration, ratio * span), event.altKey);
+  };
+
+  if (buckets.length === 0) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      className={activityTimeline()}
+      onClick={handleClick}
+      title="Chat activity – click to jump"
+      aria-label="Chat activity timeline, click to jump"
+    >
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${buckets.length} 100`}
+        preserveAspectRatio="none"
+        aria-hidden="true"
+      >
+        {bars.map(({ bucket, x, height }) => (
+          <g key={bucket.start}>
+            <rect
+              x={x + 0.1}
+              y={100 - height}
+              width={0.8}
+              height={height}
+              fill={bucket.isEmojiBurst ? "#f472b6" : token("colors.ui.indicatorActive")}
+            >
+              <title>{describeBucket(bucket)}</title>
+            </rect>
+            {bucket.superChatCount > 0 && (
+              <rect x={x} y={0} width={1} height={12} fill={token("colors.message.superchat")} />
+            )}
+          </g>
+        ))}
+      </svg>
+      {currentPosition !== null && span > 0 && (
+        <span
+          className={activityPlayhead()}
+          style={{ left: `${Math.min(100, Math.max(0, (currentPosition / span) * 100))}%` }}
+        />
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,87 @@
+import { useMemo, useState } from "react";
+import { bannerCard, bannerDismiss, bannerHeader, bannerTitle, pollChoice } from "../recipes";
+import type { ChatBanner, UserPreferences } from "../types";
+import { ChatMessage } from "./ChatMessage";
+import { Box } from "./ui";
+
+const POLL_BAR_COLOR = "rgba(255, 202, 40, 0.25)";
+
+interface BannerHeaderProps {
+  banners: ChatBanner[];
+  currentPosition: number | null;
+  isLive: boolean;
+  preferences: UserPreferences;
+  onSeek?: (timestamp: number, withContext?: boolean) => void;
+}
+
+/**
+ * Pinned messages and polls, shown above the message list
+ * Live chat shows the banners currently up; archived chat shows those active at the playback position
+ */
+export const BannerHeader = ({ banners, currentPosition, isLive, preferences, onSeek }: BannerHeaderProps) => {
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set());
+
+  const activeBanners = useMemo(() => {
+    const visible = banners.filter((banner) => !dismissedIds.has(banner.id));
+    if (isLive) return visible;
+    if (currentPosition === null) return [];
+    return visible.filter(
+      (banner) =>
+        banner.timestamp <= currentPosition && currentPosition < (banner.endTimestamp ?? Number.POSITIVE_INFINITY),
+    );
+  }, [banners, dismissedIds, isLive, currentPosition]);
+
+  if (activeBanners.length === 0) {
+    return null;
+  }
+
+  const dismiss = (id: string) => setDismissedIds((prev) => new Set(prev).add(id));
+
+  return (
+    <Box className={bannerHeader()}>
+      {activeBanners.map((banner) => (
+        <Box key={banner.id} className={bannerCard({ kind: banner.kind })}>
+          {banner.header && <Box className={bannerTitle()}>{banner.header}</Box>}
+
+          {banner.kind === "pinned" &&
+            (banner.message ? (
+              <ChatMessage message={banner.message} preferences={preferences} onSeek={isLive ? undefined : onSeek} />
+            ) : (
+              <Box>{banner.text}</Box>
+            ))}
+
+          {banner.kind === "poll" && (
+            <>
+              {banner.question && <Box fontWeight="600">{banner.question}</Box>}
+              {banner.choices?.map((choice) => {
+                const percentage = Math.round(choice.percentage ?? 0);
+                return (
+                  <Box
+                    key={choice.text}
+                    className={pollChoice()}
+                    style={{
+                      background: `linear-gradient(90deg, ${POLL_BAR_COLOR} ${percentage}%, transparent ${percentage}%)`,
+                    }}
+                  >
+                    <span>{choice.text}</span>
+                    {choice.percentage !== undefined && <span>{percentage}%</span>}
+                  </Box>
+                );
+              })}
+            </>
+          )}
+
+          <button
+            type="button"
+            className={bannerDismiss()}
+            aria-label="Dismiss"
+            title="Dismiss"
+            onClick={() => dismiss(banner.id)}
+          >
+            ×
+          </button>
+        </Box>
+      ))}
+    </Box>
+  );
+};
@@ -20,6 +20,7 @@ import { Box, Flex } from "./ui";
 interface ChatMessageProps {
   message: ChatMessageType;
   preferences: UserPreferences;
+  onSeek?: (timestamp: number, withContext: boolean) => void; // Makes the timestamp clickable
 }
 
 // Badge icons as SVG components
@@ -199,7 +200,7 @@ const getMessageStyle = (message: ChatMessageType) => {
   }
 };
 
-export const ChatMessage = memo(({ message, preferences }: ChatMessageProps) => {
+export const ChatMessage = memo(({ message, preferences, onSeek }: ChatMessageProps) => {
   const style = getMessageStyle(message);
   const isSpecialMessage = ["superchat", "supersticker", "membership", "gift"].includes(message.type);
   const { showTimestamp, showAuthorName, showAuthorPhoto, fontScale } = preferences;
@@ -220,7 +221,11 @@ export const ChatMessage = memo(({ message, preferences }: ChatMessageProps) =>
 
   return (
     <Box
-      className={messageContainer({ type: message.type as "text" | "superchat" | "membership" | "gift" | "system" })}
+      className={messageContainer({
+        type: message.type as "text" | "superchat" | "membership" | "gift" | "system",
+        deleted: message.deleted,
+      })}
+      title={message.deleted ? "Deleted by a moderator" : undefined}
       style={{
         backgroundColor: style.backgroundColor,
         borderRadius: scaledRem(0.375),
@@ -287,18 +292,33 @@ export const ChatMessage = memo(({ message, preferences }: ChatMessageProps) =>
                   <AuthorBadges badges={message.authorBadges} iconSize={scaledPx(14)} gap={scaledPx(4)} />
                 </>
               )}
-              {showTimestamp && message.timestampText && (
-                <span className={timestamp({ hasAuthor: showAuthorName })} style={{ fontSize: scaledRem(0.6875) }}>
-                  {message.timestampText}
-                </span>
-              )}
+              {showTimestamp &&
+                message.timestampText &&
+                (onSeek ? (
+                  <button
+                    type="button"
+                    className={timestamp({ hasAuthor: showAuthorName, clickable: true })}
+                    style={{ fontSize: scaledRem(0.6875) }}
+                    title="Jump to this message (Option-click to start 5 seconds earlier)"
+                    onClick={(event) => onSeek(message.timestamp, event.altKey)}
+                  >
+                    {message.timestampText}
+                  </button>
+                ) : (
+                  <span className={timestamp({ hasAuthor: showAuthorName })} style={{ fontSize: scaledRem(0.6875) }}>
+                    {message.timestampText}
+                  </span>
+                ))}
             </Flex>
           )}
 
           {/* Message text */}
           {message.type !== "supersticker" && (
             <Box
-              className={messageText({ type: message.type as "text" | "membership" | "gift" | "system" })}
+              className={messageText({
+                type: message.type as "text" | "membership" | "gift" | "system",
+                deleted: message.deleted,
+              })}
               style={{ color: style.color, fontSize: scaledRem(0.8125) }}
             >
               <MessageContent runs={message.messageRuns} fallbackText={message.message} emojiSize={scaledPx(20)} />
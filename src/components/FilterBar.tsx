@@ -0,0 +1,132 @@
+import { useMemo } from "react";
+import { useChatFilter } from "../hooks/useChatFilter";
+import { filterBar, filterChip, filterCount, filterDivider } from "../recipes";
+import type { BadgeType, ChatFilters, ChatMessage, DisplayFilters, MessageType } from "../types";
+import { Box } from "./ui";
+
+const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
+  text: "Chat",
+  superchat: "Super Chat",
+  supersticker: "Sticker",
+  membership: "Membership",
+  gift: "Gift",
+  system: "System",
+};
+
+const BADGE_LABELS: Record<BadgeType, string> = {
+  owner: "Owner",
+  moderator: "Moderator",
+  member: "Member",
+  verified: "Verified",
+};
+
+const MESSAGE_TYPES = Object.keys(MESSAGE_TYPE_LABELS) as MessageType[];
+const BADGE_TYPES = Object.keys(BADGE_LABELS) as BadgeType[];
+
+interface FilterBarProps {
+  messages: ChatMessage[];
+  currentPosition: number | null;
+  filters: ChatFilters;
+  displayFilters: DisplayFilters;
+  onChange: (displayFilters: DisplayFilters) => void;
+  onUnmuteAuthor: (channelId: string) => void;
+}
+
+export const FilterBar = ({
+  messages,
+  currentPosition,
+  filters,
+  displayFilters,
+  onChange,
+  onUnmuteAuthor,
+}: FilterBarProps) => {
+  const isHidden = useChatFilter(filters);
+
+  // Count messages that have appeared so far (and aren't filtered out by keyword/author filters)
+  const counts = useMemo(() => {
+    const typeCounts = Object.fromEntries(MESSAGE_TYPES.map((type) => [type, 0])) as Record<MessageType, number>;
+    const badgeCounts = Object.fromEntries(BADGE_TYPES.map((badge) => [badge, 0])) as Record<BadgeType, number>;
+
+    for (const msg of messages) {
+      if (currentPosition !== null && msg.timestamp > currentPosition) continue;
+      if (isHidden(msg)) continue;
+
+      typeCounts[msg.type]++;
+      for (const badge of new Set(msg.authorBadges?.map((b) => b.type))) {
+        badgeCounts[badge]++;
+      }
+    }
+
+    return { typeCounts, badgeCounts };
+  }, [messages, currentPosition, isHidden]);
+
+  const toggleType = (type: MessageType) => {
+    const hiddenTypes = displayFilters.hiddenTypes.includes(type)
+      ? displayFilters.hiddenTypes.filter((t) => t !== type)
+      : [...displayFilters.hiddenTypes, type];
+    onChange({ ...displayFilters, hiddenTypes });
+  };
+
+  const toggleBadge = (badge: BadgeType) => {
+    const badges = displayFilters.badges.includes(badge)
+      ? displayFilters.badges.filter((b) => b !== badge)
+      : [...displayFilters.badges, badge];
+    onChange({ ...displayFilters, badges });
+  };
+
+  return (
+    <Box className={filterBar()} role="toolbar" aria-label="Message filters">
+      {MESSAGE_TYPES.map((type) => {
+        const active = !displayFilters.hiddenTypes.includes(type);
+        return (
+          <button
+            key={type}
+            type="button"
+            aria-pressed={active}
+            className={filterChip({ active })}
+            onClick={() => toggleType(type)}
+          >
+            {MESSAGE_TYPE_LABELS[type]}
+            <span className={filterCount()}>{counts.typeCounts[type]}</span>
+          </button>
+        );
+      })}
+
+      <Box className={filterDivider()} />
+
+      {/* Badge chips narrow the list to authors with any selected badge */}
+      {BADGE_TYPES.map((badge) => {
+        const active = displayFilters.badges.includes(badge);
+        return (
+          <button
+            key={badge}
+            type="button"
+            aria-pressed={active}
+            title={`Only show messages from authors with the ${BADGE_LABELS[badge]} badge`}
+            className={filterChip({ active })}
+            onClick={() => toggleBadge(badge)}
+          >
+            {BADGE_LABELS[badge]}
+            <span className={filterCount()}>{counts.badgeCounts[badge]}</span>
+          </button>
+        );
+      })}
+
+      {/* Muted authors' messages are hidden, so they can only be unmuted from here (or the settings) */}
+      {filters.mutedAuthors.length > 0 && <Box className={filterDivider()} />}
+      {filters.mutedAuthors.map((author) => (
+        <button
+          key={author.channelId}
+          type="button"
+          title={`${author.name} is muted – click to unmute`}
+          aria-label={`Unmute ${author.name}`}
+          className={filterChip({ active: false })}
+          onClick={() => onUnmuteAuthor(author.channelId)}
+        >
+          {author.name}
+          <span className={filterCount()}>×</span>
+        </button>
+      ))}
+    </Box>
+  );
+};
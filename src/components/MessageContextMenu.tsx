@@ -0,0 +1,100 @@
+import { useEffect, useRef } from "react";
+import { contextMenu, contextMenuItem } from "../recipes";
+import type { ChatMessage } from "../types";
+import { Box } from "./ui";
+
+// Whole messages up to this length can be turned into a keyword filter (e.g. "first!" floods)
+const MAX_MESSAGE_KEYWORD_LENGTH = 40;
+const MENU_WIDTH = 260;
+
+export interface MessageContextMenuState {
+  message: ChatMessage;
+  x: number;
+  y: number;
+  selectedText: string;
+}
+
+interface MessageContextMenuProps extends MessageContextMenuState {
+  onMuteAuthor: (channelId: string, name: string) => void;
+  onAddKeywordFilter: (keyword: string) => void;
+  onClose: () => void;
+}
+
+export const MessageContextMenu = ({
+  message,
+  x,
+  y,
+  selectedText,
+  onMuteAuthor,
+  onAddKeywordFilter,
+  onClose,
+}: MessageContextMenuProps) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click, Escape, or scroll
+  useEffect(() => {
+    const handleMouseDown = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("mousedown", handleMouseDown);
+    document.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("scroll", onClose, true);
+    return () => {
+      document.removeEventListener("mousedown", handleMouseDown);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", onClose, true);
+    };
+  }, [onClose]);
+
+  const messageText = message.message.trim();
+  const keyword =
+    selectedText || (messageText.length > 0 && messageText.length <= MAX_MESSAGE_KEYWORD_LENGTH ? messageText : "");
+
+  const runAndClose = (action: () => void) => () => {
+    action();
+    onClose();
+  };
+
+  return (
+    <Box
+      ref={menuRef}
+      role="menu"
+      className={contextMenu()}
+      style={{ left: Math.max(0, Math.min(x, window.innerWidth - MENU_WIDTH)), top: y }}
+    >
+      {message.authorChannelId && (
+        <button
+          type="button"
+          role="menuitem"
+          className={contextMenuItem()}
+          onClick={runAndClose(() => onMuteAuthor(message.authorChannelId as string, message.author))}
+        >
+          Mute {message.author}
+        </button>
+      )}
+      {keyword && (
+        <button
+          type="button"
+          role="menuitem"
+          className={contextMenuItem()}
+          onClick={runAndClose(() => onAddKeywordFilter(keyword))}
+        >
+          Hide messages containing “{keyword}”
+        </button>
+      )}
+      {!message.authorChannelId && !keyword && (
+        <button type="button" role="menuitem" className={contextMenuItem()} onClick={onClose}>
+          No filter actions for this message
+        </button>
+      )}
+    </Box>
+  );
+};
@@ -1,5 +1,6 @@
 import { useVirtualizer } from "@tanstack/react-virtual";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { type MouseEvent, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useChatFilter, useDisplayFilter } from "../hooks/useChatFilter";
 import {
   iconButton,
   indicatorBar,
@@ -9,19 +10,37 @@ import {
   virtualItem,
   virtualListContainer,
 } from "../recipes";
-import type { ChatMessage as ChatMessageType, UserPreferences } from "../types";
+import type { ChatFilters, ChatMessage as ChatMessageType, DisplayFilters, UserPreferences } from "../types";
 import { ChatMessage } from "./ChatMessage";
+import { MessageContextMenu, type MessageContextMenuState } from "./MessageContextMenu";
 import { Box } from "./ui";
 
 interface MessageListProps {
   messages: ChatMessageType[];
   currentPosition: number | null;
   preferences: UserPreferences;
+  filters: ChatFilters;
+  displayFilters: DisplayFilters;
+  onMuteAuthor: (channelId: string, name: string) => void;
+  onAddKeywordFilter: (keyword: string) => void;
+  onSeek?: (timestamp: number, withContext: boolean) => void; // Omitted when the stream can't be seeked
 }
 
-export const MessageList = ({ messages, currentPosition, preferences }: MessageListProps) => {
+export const MessageList = ({
+  messages,
+  currentPosition,
+  preferences,
+  filters,
+  displayFilters,
+  onMuteAuthor,
+  onAddKeywordFilter,
+  onSeek,
+}: MessageListProps) => {
   const parentRef = useRef<HTMLDivElement>(null);
-  const { maxMessages, scrollDirection } = preferences;
+  const { maxMessages, scrollDirection, deletedMessages } = preferences;
+  const isHidden = useChatFilter(filters);
+  const isVisibleInView = useDisplayFilter(displayFilters);
+  const [contextMenuState, setContextMenuState] = useState<MessageContextMenuState | null>(null);
 
   // Track if user is at the latest edge (should auto-scroll)
   const [isAtBottom, setIsAtBottom] = useState(true);
@@ -31,13 +50,23 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
   const lastMessageIdRef = useRef<string | null>(null);
   // Track if this is the initial load (to force scroll to latest)
   const isInitialLoadRef = useRef(true);
+  // Message at the top of the viewport while scrolled away from the latest edge, kept in view when
+  // messages are inserted before it (e.g. when live chat switches to the full replay)
+  const scrollAnchorRef = useRef<{ id: string; index: number } | null>(null);
 
   // Filter and limit messages based on current position and preferences
   const displayMessages = useMemo(() => {
-    // First filter by current position
-    let filtered = messages;
+    // First drop messages hidden by keyword/regex/author filters and this window's type/badge toggles
+    let filtered = messages.filter((msg) => !isHidden(msg) && isVisibleInView(msg));
+
+    // Moderator-deleted messages are either struck out (by ChatMessage) or dropped here
+    if (deletedMessages === "remove") {
+      filtered = filtered.filter((msg) => !msg.deleted);
+    }
+
+    // Then filter by current position
     if (currentPosition !== null) {
-      filtered = messages.filter((msg) => msg.timestamp <= currentPosition);
+      filtered = filtered.filter((msg) => msg.timestamp <= currentPosition);
     }
 
     // Apply maxMessages limit (0 = unlimited)
@@ -52,7 +81,10 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
     }
 
     return filtered;
-  }, [messages, currentPosition, maxMessages, scrollDirection]);
+  }, [messages, isHidden, isVisibleInView, deletedMessages, currentPosition, maxMessages, scrollDirection]);
+
+  const displayMessagesRef = useRef(displayMessages);
+  displayMessagesRef.current = displayMessages;
 
   // Virtual list setup
   const virtualizer = useVirtualizer({
@@ -85,12 +117,29 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
     if (!el) return;
 
     const handleScroll = () => {
-      setIsAtBottom(checkIfAtLatestEdge());
+      const isAtEdge = checkIfAtLatestEdge();
+      setIsAtBottom(isAtEdge);
+
+      const topItem = isAtEdge ? undefined : virtualizer.getVirtualItems().find((item) => item.end > el.scrollTop);
+      const topMessage = topItem && displayMessagesRef.current[topItem.index];
+      scrollAnchorRef.current = topItem && topMessage ? { id: topMessage.id, index: topItem.index } : null;
     };
 
     el.addEventListener("scroll", handleScroll, { passive: true });
     return () => el.removeEventListener("scroll", handleScroll);
-  }, [checkIfAtLatestEdge]);
+  }, [checkIfAtLatestEdge, virtualizer]);
+
+  // Keep the anchored message in place when the list changes above it
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    if (!anchor || isAtBottom) return;
+
+    const index = displayMessages.findIndex((msg) => msg.id === anchor.id);
+    if (index >= 0 && index !== anchor.index) {
+      scrollAnchorRef.current = { id: anchor.id, index };
+      virtualizer.scrollToIndex(index, { align: "start" });
+    }
+  }, [displayMessages, isAtBottom, virtualizer]);
 
   // Auto-scroll when new messages arrive (if user is at the latest edge)
   useEffect(() => {
@@ -175,6 +224,19 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
     setIsAtBottom(true);
   }, [scrollDirection, displayMessages.length, virtualizer]);
 
+  // Open the filter menu for a message, keeping any selected text as a keyword candidate
+  const handleContextMenu = useCallback((event: MouseEvent, message: ChatMessageType) => {
+    event.preventDefault();
+    setContextMenuState({
+      message,
+      x: event.clientX,
+      y: event.clientY,
+      selectedText: window.getSelection()?.toString().trim() ?? "",
+    });
+  }, []);
+
+  const closeContextMenu = useCallback(() => setContextMenuState(null), []);
+
   const virtualItems = virtualizer.getVirtualItems();
 
   return (
@@ -192,8 +254,9 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
                 ref={virtualizer.measureElement}
                 className={virtualItem()}
                 style={{ transform: `translateY(${virtualItem_.start}px)` }}
+                onContextMenu={(event) => handleContextMenu(event, message)}
               >
-                <ChatMessage message={message} preferences={preferences} />
+                <ChatMessage message={message} preferences={preferences} onSeek={onSeek} />
               </Box>
             );
           })}
@@ -241,6 +304,16 @@ export const MessageList = ({ messages, currentPosition, preferences }: MessageL
           </button>
         </Box>
       )}
+
+      {/* Filter menu for right-clicked message */}
+      {contextMenuState && (
+        <MessageContextMenu
+          {...contextMenuState}
+          onMuteAuthor={onMuteAuthor}
+          onAddKeywordFilter={onAddKeywordFilter}
+          onClose={closeContextMenu}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { searchHighlight, searchResultItem, searchResults, searchResultTime, searchSummary } from "../recipes";
+import type { ChatMessage } from "../types";
+import { formatOffset } from "../utils/time";
+import { Box } from "./ui";
+
+// Rendering thousands of matches makes typing sluggish; the query can be narrowed instead
+const MAX_RESULTS = 500;
+
+interface SearchResultsProps {
+  messages: ChatMessage[];
+  query: string;
+  onSeek?: (timestamp: number, withContext: boolean) => void; // Omitted when the stream can't be seeked
+}
+
+/**
+ * Wrap case-insensitive occurrences of the query in <mark>
+ */
+const highlight = (text: string, query: string) => {
+  if (!query) return text;
+
+  const lowerText = text.toLowerCase();
+  const parts: (string | { match: string; index: number })[] = [];
+  let start = 0;
+
+  for (let index = lowerText.indexOf(query); index !== -1; index = lowerText.indexOf(query, start)) {
+    if (index > start) parts.push(text.slice(start, index));
+    parts.push({ match: text.slice(index, index + query.length), index });
+    start = index + query.length;
+  }
+  if (start < text.length) parts.push(text.slice(start));
+
+  return parts.map((part) =>
+    typeof part === "string" ? (
+      part
+    ) : (
+      <mark key={part.index} className={searchHighlight()}>
+        {part.match}
+      </mark>
+    ),
+  );
+};
+
+/**
+ * Matches for a search over all chat messages (not only those visible at the current position)
+ */
+export const SearchResults = ({ messages, query, onSeek }: SearchResultsProps) => {
+  const normalizedQuery = query.trim().toLowerCase();
+
+  const matches = useMemo(() => {
+    if (!normalizedQuery) return [];
+    return messages.filter(
+      (msg) =>
+        msg.message.toLowerCase().includes(normalizedQuery) || msg.author.toLowerCase().includes(normalizedQuery),
+    );
+  }, [messages, normalizedQuery]);
+
+  const shownMatches = matches.slice(0, MAX_RESULTS);
+
+  return (
+    <Box className={searchResults()}>
+      <Box className={searchSummary()}>
+        {matches.length === 0
+          ? "No matches"
+          : matches.length > MAX_RESULTS
+            ? `Showing first ${MAX_RESULTS} of ${matches.length.toLocaleString()} matches`
+            : `${matches.length.toLocaleString()} ${matches.length === 1 ? "match" : "matches"}`}
+      </Box>
+      {shownMatches.map((msg) => (
+        <button
+          key={msg.id}
+          type="button"
+          className={searchResultItem()}
+          disabled={!onSeek}
+          onClick={(event) => onSeek?.(msg.timestamp, event.altKey)}
+          title={onSeek ? "Jump to this message (Option-click to start 5 seconds earlier)" : undefined}
+        >
+          <span className={searchResultTime()}>{msg.timestampText ?? formatOffset(msg.timestamp)}</span>
+          <span>
+            <strong>{highlight(msg.author, normalizedQuery)}</strong>: {highlight(msg.message, normalizedQuery)}
+          </span>
+        </button>
+      ))}
+    </Box>
+  );
+};
@@ -1,4 +1,4 @@
-import { retryButton, spinner, statusMessage, statusText } from "../recipes";
+import { cancelButton, retryButton, spinner, statusMessage, statusText } from "../recipes";
 import type { StatusMessageType } from "../types";
 import { Box } from "./ui";
 
@@ -6,20 +6,27 @@ interface StatusMessageProps {
   type: StatusMessageType;
   message: string;
   onRetry?: () => void;
+  onCancel?: () => void; // Shown as a "Cancel loading" button while loading
+  compact?: boolean; // Single-line variant shown above messages (e.g. while more chat is loading)
 }
 
 const LoadingSpinner = () => <Box className={spinner()} />;
 
-export const StatusMessage = ({ type, message, onRetry }: StatusMessageProps) => {
+export const StatusMessage = ({ type, message, onRetry, onCancel, compact = false }: StatusMessageProps) => {
   return (
-    <Box className={statusMessage({ type })}>
-      {type === "loading" && <LoadingSpinner />}
+    <Box className={statusMessage({ type, compact })}>
+      {type === "loading" && !compact && <LoadingSpinner />}
       <p className={statusText({ animated: type === "loading" })}>{message}</p>
-      {type === "error" && onRetry && (
+      {onRetry && (
         <button type="button" onClick={onRetry} className={retryButton()}>
           Retry
         </button>
       )}
+      {type === "loading" && onCancel && (
+        <button type="button" onClick={onCancel} className={cancelButton({ compact })}>
+          Cancel loading
+        </button>
+      )}
     </Box>
   );
 };
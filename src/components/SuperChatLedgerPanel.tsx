@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import {
+  filterChip,
+  ledgerAmount,
+  ledgerList,
+  ledgerMessage,
+  ledgerPanel,
+  ledgerRow,
+  ledgerRowHeader,
+  ledgerTime,
+  ledgerToolbar,
+  ledgerTotal,
+  ledgerTotals,
+} from "../recipes";
+import type { LedgerEntry, SuperChatLedger } from "../types";
+import { formatTotal } from "../utils/currency";
+import { formatOffset } from "../utils/time";
+import { Box } from "./ui";
+
+type SortKey = "time" | "amount" | "author";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  time: "Time",
+  amount: "Amount",
+  author: "Author",
+};
+
+interface SuperChatLedgerPanelProps {
+  ledger: SuperChatLedger;
+  onSeek?: (timestamp: number, withContext: boolean) => void; // Omitted when the stream can't be seeked
+  onExport: () => void;
+}
+
+/**
+ * All Super Chats and Super Stickers with per-currency totals
+ */
+export const SuperChatLedgerPanel = ({ ledger, onSeek, onExport }: SuperChatLedgerPanelProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("time");
+  const [descending, setDescending] = useState(false);
+
+  const sortedEntries = useMemo(() => {
+    // Amounts are only comparable within a currency, so group by currency (most used first)
+    const currencyOrder = new Map(ledger.totals.map((total, i) => [total.currency, i]));
+    const compare = (a: LedgerEntry, b: LedgerEntry): number => {
+      switch (sortKey) {
+        case "time":
+          return a.timestamp - b.timestamp;
+        case "author":
+          return a.author.localeCompare(b.author);
+        case "amount": {
+          const currencyDiff =
+            (currencyOrder.get(a.currency ?? "") ?? Number.MAX_SAFE_INTEGER) -
+            (currencyOrder.get(b.currency ?? "") ?? Number.MAX_SAFE_INTEGER);
+          return currencyDiff !== 0 ? currencyDiff : (a.value ?? 0) - (b.value ?? 0);
+        }
+      }
+    };
+
+    const sorted = [...ledger.entries].sort(compare);
+    return descending ? sorted.reverse() : sorted;
+  }, [ledger, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      // Biggest amounts first is the useful default
+      setDescending(key === "amount");
+    }
+  };
+
+  const unparsedCount = ledger.entries.filter((entry) => entry.currency === null).length;
+
+  return (
+    <Box className={ledgerPanel()}>
+      <Box className={ledgerTotals()}>
+        {ledger.totals.map((total) => (
+          <span key={total.currency} className={ledgerTotal()} title={`${total.count} Super Chats`}>
+            {formatTotal(total.currency, total.total)}
+          </span>
+        ))}
+        {unparsedCount > 0 && (
+          <span className={ledgerTotal()} title="Amounts that could not be parsed are not included in the totals">
+            +{unparsedCount} unparsed
+          </span>
+        )}
+      </Box>
+
+      <Box className={ledgerToolbar()}>
+        <span>{ledger.entries.length.toLocaleString()} total · Sort:</span>
+        {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={sortKey === key}
+            className={filterChip({ active: sortKey === key })}
+            onClick={() => handleSort(key)}
+          >
+            {SORT_LABELS[key]}
+            {sortKey === key && (descending ? " ↓" : " ↑")}
+          </button>
+        ))}
+        <Box flex="1" />
+        <button type="button" className={filterChip({ active: false })} onClick={onExport}>
+          Export CSV
+        </button>
+      </Box>
+
+      <Box className={ledgerList()}>
+        {sortedEntries.map((entry) => (
+          <Box key={entry.id} className={ledgerRow()}>
+            <Box className={ledgerRowHeader()}>
+              <button
+                type="button"
+                className={ledgerTime()}
+                disabled={!onSeek}
+                title={onSeek ? "Jump to this Super Chat (Option-click to start 5 seconds earlier)" : undefined}
+                onClick={(event) => onSeek?.(entry.timestamp, event.altKey)}
+              >
+                {entry.timestampText ?? formatOffset(entry.timestamp)}
+              </button>
+              <strong>{entry.author}</strong>
+              <span className={ledgerAmount()}>
+                {entry.amount}
+                {entry.type === "supersticker" && " (sticker)"}
+              </span>
+            </Box>
+            {entry.message && <Box className={ledgerMessage()}>{entry.message}</Box>}
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
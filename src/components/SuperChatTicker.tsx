@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { token } from "../../styled-system/tokens";
+import { tickerAvatar, tickerChip, tickerExpanded, tickerRow } from "../recipes";
+import type { ChatMessage as ChatMessageType, UserPreferences } from "../types";
+import { ChatMessage } from "./ChatMessage";
+import { Box } from "./ui";
+
+const TICKER_TYPES = new Set<ChatMessageType["type"]>(["superchat", "supersticker", "membership", "gift"]);
+
+// YouTube encodes the Super Chat tier in its color regardless of currency; durations follow YouTube's ticker
+const TIER_DURATIONS_SECONDS: Record<string, number> = {
+  "1e88e5": 30, // Blue
+  "00e5ff": 60, // Light blue
+  "1de9b6": 2 * 60, // Green
+  ffca28: 5 * 60, // Yellow
+  f57c00: 10 * 60, // Orange
+  e91e63: 30 * 60, // Magenta
+  e62117: 60 * 60, // Red
+};
+const DEFAULT_SUPERCHAT_DURATION_SECONDS = 2 * 60;
+const MEMBERSHIP_DURATION_SECONDS = 2 * 60;
+const GIFT_DURATION_PER_MEMBERSHIP_SECONDS = 30;
+const MAX_GIFT_DURATION_SECONDS = 10 * 60;
+
+/**
+ * How long a message stays in the ticker
+ */
+const getTickerDuration = (message: ChatMessageType): number => {
+  switch (message.type) {
+    case "superchat":
+    case "supersticker": {
+      const rgb = message.colors?.bodyBackgroundColor?.slice(1, 7).toLowerCase();
+      return (rgb && TIER_DURATIONS_SECONDS[rgb]) || DEFAULT_SUPERCHAT_DURATION_SECONDS;
+    }
+    case "gift":
+      return Math.min(
+        MAX_GIFT_DURATION_SECONDS,
+        MEMBERSHIP_DURATION_SECONDS + (message.giftCount ?? 1) * GIFT_DURATION_PER_MEMBERSHIP_SECONDS,
+      );
+    default:
+      return MEMBERSHIP_DURATION_SECONDS;
+  }
+};
+
+const getChipColors = (message: ChatMessageType): { fill: string; track: string; text: string } => {
+  switch (message.type) {
+    case "membership":
+      return {
+        fill: token("colors.message.membershipHeader"),
+        track: token("colors.message.membership"),
+        text: "white",
+      };
+    case "gift":
+      return { fill: token("colors.message.giftHeader"), track: token("colors.message.gift"), text: "white" };
+    default:
+      return {
+        fill:
+          message.colors?.headerBackgroundColor ??
+          message.colors?.bodyBackgroundColor ??
+          token("colors.message.superchatHeader"),
+        track: message.colors?.bodyBackgroundColor ?? token("colors.message.superchat"),
+        text: message.colors?.headerTextColor ?? "black",
+      };
+  }
+};
+
+const getChipLabel = (message: ChatMessageType): string => {
+  switch (message.type) {
+    case "membership":
+      return "Member";
+    case "gift":
+      return `×${message.giftCount ?? 1}`;
+    default:
+      return message.amount ?? "Super Chat";
+  }
+};
+
+interface SuperChatTickerProps {
+  messages: ChatMessageType[];
+  currentPosition: number | null;
+  preferences: UserPreferences;
+}
+
+/**
+ * Recent paid messages and memberships, kept visible for a time that scales with the amount
+ * Follows the playback position; live message timestamps are stream offsets, so this works for both
+ */
+export const SuperChatTicker = ({ messages, currentPosition, preferences }: SuperChatTickerProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const tickerMessages = useMemo(() => messages.filter((msg) => TICKER_TYPES.has(msg.type)), [messages]);
+
+  const activeChips = useMemo(() => {
+    if (currentPosition === null) return [];
+
+    const chips: { message: ChatMessageType; remaining: number }[] = [];
+    for (const message of tickerMessages) {
+      const duration = getTickerDuration(message);
+      const elapsed = currentPosition - message.timestamp;
+      if (elapsed >= 0 && elapsed < duration) {
+        chips.push({ message, remaining: 1 - elapsed / duration });
+      }
+    }
+
+    // Newest first, like YouTube
+    return chips.reverse();
+  }, [tickerMessages, currentPosition]);
+
+  const expandedMessage = activeChips.find((chip) => chip.message.id === expandedId)?.message;
+
+  if (activeChips.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Box className={tickerRow()}>
+        {activeChips.map(({ message, remaining }) => {
+          const colors = getChipColors(message);
+          const fillPercent = Math.round(remaining * 100);
+          return (
+            <button
+              key={message.id}
+              type="button"
+              className={tickerChip({ expanded: message.id === expandedId })}
+              style={{
+                color: colors.text,
+                background: `linear-gradient(90deg, ${colors.fill} ${fillPercent}%, ${colors.track} ${fillPercent}%)`,
+              }}
+              title={`${message.author}: ${message.message}`}
+              onClick={() => setExpandedId((prev) => (prev === message.id ? null : message.id))}
+            >
+              {message.authorPhoto && <img src={message.authorPhoto} alt="" className={tickerAvatar()} />}
+              {getChipLabel(message)}
+            </button>
+          );
+        })}
+      </Box>
+
+      {expandedMessage && (
+        <Box className={tickerExpanded()}>
+          <ChatMessage message={expandedMessage} preferences={preferences} />
+        </Box>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import type { ChatFilters, ChatMessage, DisplayFilters } from "../types";
+
+/**
+ * Compile chat filters into a predicate that returns true for messages that should be hidden
+ * Keywords and regexes match the message text case-insensitively; invalid regexes are ignored
+ */
+export const useChatFilter = (filters: ChatFilters): ((message: ChatMessage) => boolean) => {
+  return useMemo(() => {
+    const keywords = filters.keywords.map((keyword) => keyword.toLowerCase());
+    const mutedChannelIds = new Set(filters.mutedAuthors.map((author) => author.channelId));
+
+    const regexes: RegExp[] = [];
+    for (const source of filters.regexes) {
+      try {
+        regexes.push(new RegExp(source, "i"));
+      } catch {
+        console.warn(`[useChatFilter] Ignoring invalid regex: ${source}`);
+      }
+    }
+
+    return (message: ChatMessage) => {
+      if (message.authorChannelId && mutedChannelIds.has(message.authorChannelId)) {
+        return true;
+      }
+
+      if (keywords.length > 0) {
+        const text = message.message.toLowerCase();
+        if (keywords.some((keyword) => text.includes(keyword))) {
+          return true;
+        }
+      }
+
+      return regexes.some((regex) => regex.test(message.message));
+    };
+  }, [filters]);
+};
+
+/**
+ * Compile display filters into a predicate that returns true for messages that should be shown
+ * Hidden message types are dropped; selected badges restrict messages to authors with one of them
+ */
+export const useDisplayFilter = (displayFilters: DisplayFilters): ((message: ChatMessage) => boolean) => {
+  return useMemo(() => {
+    const hiddenTypes = new Set(displayFilters.hiddenTypes);
+    const badges = new Set(displayFilters.badges);
+
+    return (message: ChatMessage) => {
+      if (hiddenTypes.has(message.type)) {
+        return false;
+      }
+      if (badges.size === 0) {
+        return true;
+      }
+      return message.authorBadges?.some((badge) => badges.has(badge.type)) ?? false;
+    };
+  }, [displayFilters]);
+};
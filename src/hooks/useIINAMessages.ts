@@ -1,15 +1,26 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  AuthStatusMessageSchema,
+  ChatActivityMessageSchema,
+  ChatBannersMessageSchema,
   ChatDataChunkMessageSchema,
   ChatDataCompleteMessageSchema,
+  ChatDataPartialMessageSchema,
   ChatErrorMessageSchema,
+  ChatGapsMessageSchema,
   ChatInfoMessageSchema,
   ChatLoadingMessageSchema,
+  ChatMessagesUpdateSchema,
+  ChatWarningMessageSchema,
+  DisplayFiltersUpdateMessageSchema,
+  FiltersUpdateMessageSchema,
   LiveChatMessagesSchema,
+  LiveStatusMessageSchema,
   PositionUpdateMessageSchema,
   PreferencesUpdateMessageSchema,
+  SuperChatLedgerMessageSchema,
 } from "../schemas";
-import type { AppState, ChatMessage } from "../types";
+import type { AppState, ChatFilters, ChatMessage, DisplayFilters } from "../types";
 
 const DEFAULT_PREFERENCES = {
   maxMessages: 200,
@@ -18,6 +29,54 @@ const DEFAULT_PREFERENCES = {
   showAuthorName: true,
   showAuthorPhoto: true,
   fontScale: 100,
+  deletedMessages: "strike" as const,
+};
+
+const DEFAULT_FILTERS: ChatFilters = {
+  keywords: [],
+  regexes: [],
+  mutedAuthors: [],
+};
+
+const DEFAULT_DISPLAY_FILTERS: DisplayFilters = {
+  hiddenTypes: [],
+  badges: [],
+};
+
+/**
+ * Merge incoming messages into an existing list, keeping timestamp order and skipping known IDs
+ * One pass over the list per batch; a duplicate has the same timestamp, so only those are compared
+ */
+const mergeMessages = (existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const batch = [...incoming].sort((a, b) => a.timestamp - b.timestamp);
+  const merged: ChatMessage[] = [];
+  let added = 0;
+  let i = 0;
+
+  for (const msg of batch) {
+    while (i < existing.length && existing[i].timestamp < msg.timestamp) {
+      merged.push(existing[i++]);
+    }
+    let duplicate = false;
+    for (let j = i; j < existing.length && existing[j].timestamp === msg.timestamp; j++) {
+      if (existing[j].id === msg.id) {
+        duplicate = true;
+        break;
+      }
+    }
+    if (!duplicate) {
+      merged.push(msg);
+      added++;
+    }
+  }
+
+  if (added === 0) {
+    return existing;
+  }
+  for (; i < existing.length; i++) {
+    merged.push(existing[i]);
+  }
+  return merged;
 };
 
 export const useIINAMessages = () => {
@@ -25,10 +84,20 @@ export const useIINAMessages = () => {
     loading: true, // Start with loading state until plugin sends actual status
     error: null,
     info: null,
+    warning: null,
     progress: null,
     messages: [],
+    isLive: false,
+    liveStatus: null,
+    authStatus: null,
     currentPosition: null,
     preferences: DEFAULT_PREFERENCES,
+    filters: DEFAULT_FILTERS,
+    displayFilters: DEFAULT_DISPLAY_FILTERS,
+    activity: null,
+    ledger: null,
+    banners: [],
+    gaps: [],
   });
 
   // Store chunks temporarily until all are received
@@ -91,7 +160,7 @@ export const useIINAMessages = () => {
         return;
       }
 
-      const { totalMessages } = parseResult.data;
+      const { totalMessages, isLive = false } = parseResult.data;
 
       // Check for missing chunks
       const missingChunks: number[] = [];
@@ -119,13 +188,29 @@ export const useIINAMessages = () => {
         console.error(`[useIINAMessages] Message count mismatch: expected ${totalMessages}, got ${allMessages.length}`);
       }
 
-      setState((prev) => ({ ...prev, messages: allMessages, error: null, info: null }));
+      setState((prev) => ({ ...prev, messages: allMessages, isLive, error: null, info: null }));
 
       // Clear chunks
       chunksRef.current.clear();
       expectedChunksRef.current = 0;
     });
 
+    iina.onMessage("chat-data-partial", (data: unknown) => {
+      const parseResult = ChatDataPartialMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-data-partial message:", parseResult.error);
+        return;
+      }
+      const { messages: newMessages } = parseResult.data;
+      // Merge into what is already on screen (loading state stays until chat-loading arrives)
+      setState((prev) => ({
+        ...prev,
+        messages: mergeMessages(prev.messages, newMessages),
+        error: null,
+        info: null,
+      }));
+    });
+
     iina.onMessage("chat-error", (data: unknown) => {
       const parseResult = ChatErrorMessageSchema.safeParse(data);
       if (!parseResult.success) {
@@ -147,6 +232,15 @@ export const useIINAMessages = () => {
       setState((prev) => ({ ...prev, info: message, loading: false }));
     });
 
+    iina.onMessage("chat-warning", (data: unknown) => {
+      const parseResult = ChatWarningMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-warning message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, warning: parseResult.data?.message ?? null }));
+    });
+
     iina.onMessage("live-chat-messages", (data: unknown) => {
       const parseResult = LiveChatMessagesSchema.safeParse(data);
       if (!parseResult.success) {
@@ -159,11 +253,44 @@ export const useIINAMessages = () => {
       setState((prev) => ({
         ...prev,
         messages: [...prev.messages, ...newMessages],
+        isLive: true,
         loading: false, // Clear loading state when receiving chat
         info: null, // Clear info message when receiving chat
       }));
     });
 
+    iina.onMessage("chat-messages-update", (data: unknown) => {
+      const parseResult = ChatMessagesUpdateSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-messages-update message:", parseResult.error);
+        return;
+      }
+      const updated = new Map(parseResult.data.messages.map((msg) => [msg.id, msg]));
+      // Replace in place so deleted messages keep their position
+      setState((prev) => ({
+        ...prev,
+        messages: prev.messages.map((msg) => updated.get(msg.id) ?? msg),
+      }));
+    });
+
+    iina.onMessage("live-status", (data: unknown) => {
+      const parseResult = LiveStatusMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid live-status message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, liveStatus: parseResult.data }));
+    });
+
+    iina.onMessage("auth-status", (data: unknown) => {
+      const parseResult = AuthStatusMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid auth-status message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, authStatus: parseResult.data }));
+    });
+
     iina.onMessage("position-update", (data: unknown) => {
       const parseResult = PositionUpdateMessageSchema.safeParse(data);
       if (!parseResult.success) {
@@ -180,14 +307,83 @@ export const useIINAMessages = () => {
         console.error("[useIINAMessages] Invalid preferences-update message:", parseResult.error);
         return;
       }
-      const { maxMessages, scrollDirection, showTimestamp, showAuthorName, showAuthorPhoto, fontScale } =
-        parseResult.data;
+      const {
+        maxMessages,
+        scrollDirection,
+        showTimestamp,
+        showAuthorName,
+        showAuthorPhoto,
+        fontScale,
+        deletedMessages,
+      } = parseResult.data;
       setState((prev) => ({
         ...prev,
-        preferences: { maxMessages, scrollDirection, showTimestamp, showAuthorName, showAuthorPhoto, fontScale },
+        preferences: {
+          maxMessages,
+          scrollDirection,
+          showTimestamp,
+          showAuthorName,
+          showAuthorPhoto,
+          fontScale,
+          deletedMessages,
+        },
       }));
     });
 
+    iina.onMessage("filters-update", (data: unknown) => {
+      const parseResult = FiltersUpdateMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid filters-update message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, filters: parseResult.data }));
+    });
+
+    iina.onMessage("chat-activity", (data: unknown) => {
+      const parseResult = ChatActivityMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-activity message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, activity: parseResult.data }));
+    });
+
+    iina.onMessage("superchat-ledger", (data: unknown) => {
+      const parseResult = SuperChatLedgerMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid superchat-ledger message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, ledger: parseResult.data }));
+    });
+
+    iina.onMessage("chat-banners", (data: unknown) => {
+      const parseResult = ChatBannersMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-banners message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, banners: parseResult.data.banners }));
+    });
+
+    iina.onMessage("chat-gaps", (data: unknown) => {
+      const parseResult = ChatGapsMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid chat-gaps message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, gaps: parseResult.data.gaps }));
+    });
+
+    iina.onMessage("display-filters-update", (data: unknown) => {
+      const parseResult = DisplayFiltersUpdateMessageSchema.safeParse(data);
+      if (!parseResult.success) {
+        console.error("[useIINAMessages] Invalid display-filters-update message:", parseResult.error);
+        return;
+      }
+      setState((prev) => ({ ...prev, displayFilters: parseResult.data }));
+    });
+
     // Send ready signal to plugin to request current data
     console.log("[useIINAMessages] About to send sidebar-ready message");
     iina.postMessage("sidebar-ready", {});
@@ -198,5 +394,48 @@ export const useIINAMessages = () => {
     iina.postMessage("retry-fetch", {});
   };
 
-  return { state, handleRetry };
+  const handleCancelLoading = () => {
+    iina.postMessage("cancel-loading", {});
+  };
+
+  // Filter changes are persisted by the plugin, which sends filters-update to every window
+  const handleMuteAuthor = (channelId: string, name: string) => {
+    iina.postMessage("update-filters", { action: "mute-author", channelId, name });
+  };
+
+  const handleUnmuteAuthor = (channelId: string) => {
+    iina.postMessage("update-filters", { action: "unmute-author", channelId });
+  };
+
+  const handleAddKeywordFilter = (keyword: string) => {
+    iina.postMessage("update-filters", { action: "add-keyword", keyword });
+  };
+
+  // Display filters belong to this window only: apply locally, then let the plugin remember them
+  const handleDisplayFiltersChange = (displayFilters: DisplayFilters) => {
+    setState((prev) => ({ ...prev, displayFilters }));
+    iina.postMessage("update-display-filters", displayFilters);
+  };
+
+  // Stable identity so memoized messages don't re-render
+  const handleSeek = useCallback((timestamp: number, withContext = false) => {
+    iina.postMessage("seek-to", { timestamp, withContext });
+  }, []);
+
+  // The plugin asks where to save the file
+  const handleExportSuperChats = () => {
+    iina.postMessage("export-superchats", {});
+  };
+
+  return {
+    state,
+    handleRetry,
+    handleCancelLoading,
+    handleMuteAuthor,
+    handleUnmuteAuthor,
+    handleAddKeywordFilter,
+    handleDisplayFiltersChange,
+    handleSeek,
+    handleExportSuperChats,
+  };
 };
@@ -0,0 +1,37 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Activity timeline strip (clicking it seeks the player)
+ */
+export const activityTimeline = cva({
+  base: {
+    position: "relative",
+    display: "block",
+    width: "100%",
+    height: "32px",
+    padding: 0,
+    border: "none",
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+    borderRadius: "button",
+    backgroundColor: "surface",
+    overflow: "hidden",
+    cursor: "pointer",
+  },
+});
+
+/**
+ * Current playback position marker
+ */
+export const activityPlayhead = cva({
+  base: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: "2px",
+    marginLeft: "-1px",
+    backgroundColor: "white",
+    opacity: 0.8,
+    pointerEvents: "none",
+  },
+});
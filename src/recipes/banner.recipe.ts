@@ -0,0 +1,89 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Stack of pinned messages and polls above the message list
+ */
+export const bannerHeader = cva({
+  base: {
+    display: "flex",
+    flexDirection: "column",
+    gap: "0.375rem",
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+    maxHeight: "40%",
+    overflowY: "auto",
+  },
+});
+
+/**
+ * A single banner card
+ */
+export const bannerCard = cva({
+  base: {
+    position: "relative",
+    padding: "0.375rem 1.75rem 0.375rem 0.5rem",
+    borderRadius: "message",
+    backgroundColor: "surface",
+    borderLeft: "3px solid",
+    fontSize: "0.8125rem",
+  },
+  variants: {
+    kind: {
+      pinned: { borderLeftColor: "author.moderator" },
+      poll: { borderLeftColor: "message.superchat" },
+    },
+  },
+  defaultVariants: {
+    kind: "pinned",
+  },
+});
+
+/**
+ * Banner header line (e.g. "Pinned by …" or poll metadata)
+ */
+export const bannerTitle = cva({
+  base: {
+    marginBottom: "0.25rem",
+    color: "text.secondary",
+    fontSize: "0.6875rem",
+    fontWeight: "600",
+  },
+});
+
+/**
+ * Close button in the top-right corner of a banner
+ */
+export const bannerDismiss = cva({
+  base: {
+    position: "absolute",
+    top: "0.25rem",
+    right: "0.25rem",
+    padding: "0 0.375rem",
+    border: "none",
+    borderRadius: "button",
+    background: "transparent",
+    color: "text.secondary",
+    fontSize: "0.875rem",
+    lineHeight: "1.25rem",
+    cursor: "pointer",
+    _hover: {
+      color: "white",
+      backgroundColor: "rgba(255, 255, 255, 0.1)",
+    },
+  },
+});
+
+/**
+ * Poll choice row (percentage bar is set via style prop)
+ */
+export const pollChoice = cva({
+  base: {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: "0.5rem",
+    marginTop: "0.25rem",
+    padding: "0.1875rem 0.375rem",
+    borderRadius: "button",
+    fontSize: "0.75rem",
+  },
+});
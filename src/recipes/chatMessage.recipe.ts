@@ -31,6 +31,11 @@ export const messageContainer = cva({
         backgroundColor: "message.system",
       },
     },
+    deleted: {
+      true: {
+        opacity: 0.5,
+      },
+    },
   },
   defaultVariants: {
     type: "text",
@@ -121,6 +126,20 @@ export const timestamp = cva({
         marginLeft: "auto",
       },
     },
+    // Rendered as a button that seeks the player
+    clickable: {
+      true: {
+        padding: 0,
+        border: "none",
+        background: "none",
+        font: "inherit",
+        cursor: "pointer",
+        _hover: {
+          color: "text.primary",
+          textDecoration: "underline",
+        },
+      },
+    },
   },
 });
 
@@ -150,6 +169,11 @@ export const messageText = cva({
         color: "text.muted",
       },
     },
+    deleted: {
+      true: {
+        textDecoration: "line-through",
+      },
+    },
   },
   defaultVariants: {
     type: "text",
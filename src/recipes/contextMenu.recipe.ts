@@ -0,0 +1,41 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Context menu container (positioned at the cursor via style prop)
+ */
+export const contextMenu = cva({
+  base: {
+    position: "fixed",
+    zIndex: 100,
+    minWidth: "180px",
+    maxWidth: "260px",
+    padding: "0.25rem 0",
+    backgroundColor: "surface",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "message",
+    boxShadow: "0 4px 16px rgba(0, 0, 0, 0.5)",
+    fontSize: "0.8125rem",
+  },
+});
+
+/**
+ * Context menu item
+ */
+export const contextMenuItem = cva({
+  base: {
+    display: "block",
+    width: "100%",
+    padding: "0.375rem 0.75rem",
+    border: "none",
+    background: "none",
+    color: "text.primary",
+    textAlign: "left",
+    cursor: "pointer",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+    _hover: {
+      backgroundColor: "ui.scrollButton",
+    },
+  },
+});
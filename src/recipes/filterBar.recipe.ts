@@ -0,0 +1,75 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Filter bar container (message type and badge toggles)
+ */
+export const filterBar = cva({
+  base: {
+    display: "flex",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: "0.25rem",
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+  },
+});
+
+/**
+ * Toggle chip in the filter bar
+ */
+export const filterChip = cva({
+  base: {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "0.25rem",
+    padding: "0.125rem 0.5rem",
+    borderRadius: "999px",
+    border: "1px solid",
+    fontSize: "0.75rem",
+    lineHeight: "1.4",
+    cursor: "pointer",
+    transition: "all 0.15s ease",
+    background: "none",
+  },
+  variants: {
+    active: {
+      true: {
+        borderColor: "ui.scrollButton",
+        backgroundColor: "status.loadingBg",
+        color: "text.primary",
+      },
+      false: {
+        borderColor: "rgba(255, 255, 255, 0.1)",
+        color: "text.secondary",
+        _hover: {
+          color: "text.primary",
+        },
+      },
+    },
+  },
+  defaultVariants: {
+    active: true,
+  },
+});
+
+/**
+ * Message count inside a filter chip
+ */
+export const filterCount = cva({
+  base: {
+    color: "text.muted",
+    fontVariantNumeric: "tabular-nums",
+  },
+});
+
+/**
+ * Separator between type and badge chips
+ */
+export const filterDivider = cva({
+  base: {
+    width: "1px",
+    height: "1rem",
+    marginX: "0.25rem",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+});
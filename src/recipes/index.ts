@@ -1,5 +1,9 @@
 // Status message recipes
 
+// Activity timeline recipes
+export { activityPlayhead, activityTimeline } from "./activityTimeline.recipe";
+// Banner recipes
+export { bannerCard, bannerDismiss, bannerHeader, bannerTitle, pollChoice } from "./banner.recipe";
 // Button recipes
 export { iconButton } from "./button.recipe";
 
@@ -18,6 +22,10 @@ export {
   stickerImage,
   timestamp,
 } from "./chatMessage.recipe";
+// Context menu recipes
+export { contextMenu, contextMenuItem } from "./contextMenu.recipe";
+// Filter bar recipes
+export { filterBar, filterChip, filterCount, filterDivider } from "./filterBar.recipe";
 // Message list recipes
 export {
   indicatorBar,
@@ -27,4 +35,28 @@ export {
   virtualItem,
   virtualListContainer,
 } from "./messageList.recipe";
-export { retryButton, spinner, statusMessage, statusText } from "./statusMessage.recipe";
+// Search recipes
+export {
+  searchHighlight,
+  searchInput,
+  searchResultItem,
+  searchResults,
+  searchResultTime,
+  searchSummary,
+} from "./search.recipe";
+export { cancelButton, retryButton, spinner, statusMessage, statusText } from "./statusMessage.recipe";
+// Super Chat ledger recipes
+export {
+  ledgerAmount,
+  ledgerList,
+  ledgerMessage,
+  ledgerPanel,
+  ledgerRow,
+  ledgerRowHeader,
+  ledgerTime,
+  ledgerToolbar,
+  ledgerTotal,
+  ledgerTotals,
+} from "./superChatLedger.recipe";
+// Ticker recipes
+export { tickerAvatar, tickerChip, tickerExpanded, tickerRow } from "./ticker.recipe";
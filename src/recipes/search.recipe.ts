@@ -0,0 +1,97 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Search input
+ */
+export const searchInput = cva({
+  base: {
+    width: "100%",
+    padding: "0.375rem 0.625rem",
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+    borderRadius: "button",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    backgroundColor: "surface",
+    color: "text.primary",
+    fontSize: "0.8125rem",
+    outline: "none",
+    _focus: {
+      borderColor: "ui.scrollButton",
+    },
+    _placeholder: {
+      color: "text.secondary",
+    },
+  },
+});
+
+/**
+ * Scrollable list of search results
+ */
+export const searchResults = cva({
+  base: {
+    height: "100%",
+    overflowY: "auto",
+  },
+});
+
+/**
+ * Summary line above the results ("12 matches")
+ */
+export const searchSummary = cva({
+  base: {
+    padding: "0.25rem 0",
+    color: "text.secondary",
+    fontSize: "0.75rem",
+  },
+});
+
+/**
+ * A single search result (clicking it seeks to the message)
+ */
+export const searchResultItem = cva({
+  base: {
+    display: "flex",
+    gap: "0.5rem",
+    width: "100%",
+    padding: "0.375rem 0.5rem",
+    border: "none",
+    borderRadius: "message",
+    background: "none",
+    color: "text.primary",
+    fontSize: "0.8125rem",
+    textAlign: "left",
+    cursor: "pointer",
+    _enabled: {
+      _hover: {
+        backgroundColor: "surface",
+      },
+    },
+    // Live streams that can't be seeked
+    _disabled: {
+      cursor: "default",
+    },
+  },
+});
+
+/**
+ * Timestamp column of a search result
+ */
+export const searchResultTime = cva({
+  base: {
+    flexShrink: 0,
+    minWidth: "3.5rem",
+    color: "status.loading",
+    fontVariantNumeric: "tabular-nums",
+  },
+});
+
+/**
+ * Highlighted match inside a search result
+ */
+export const searchHighlight = cva({
+  base: {
+    backgroundColor: "rgba(255, 202, 40, 0.3)",
+    color: "inherit",
+    borderRadius: "badge",
+  },
+});
@@ -24,6 +24,14 @@ export const statusMessage = cva({
         color: "status.info",
       },
     },
+    compact: {
+      true: {
+        padding: "0.5rem",
+        marginBottom: "0.5rem",
+        fontSize: "0.8125rem",
+        flexShrink: 0,
+      },
+    },
   },
   defaultVariants: {
     type: "info",
@@ -49,6 +57,35 @@ export const retryButton = cva({
   },
 });
 
+/**
+ * Cancel loading button recipe
+ */
+export const cancelButton = cva({
+  base: {
+    marginTop: "0.5rem",
+    padding: "0.25rem 0.75rem",
+    backgroundColor: "transparent",
+    color: "status.loading",
+    borderWidth: "1px",
+    borderStyle: "solid",
+    borderColor: "status.loadingBorder",
+    borderRadius: "button",
+    cursor: "pointer",
+    transition: "background-color 0.2s ease",
+    _hover: {
+      backgroundColor: "status.loadingBorder",
+    },
+  },
+  variants: {
+    compact: {
+      true: {
+        marginTop: "0.25rem",
+        fontSize: "0.75rem",
+      },
+    },
+  },
+});
+
 /**
  * Loading spinner recipe
  */
@@ -0,0 +1,136 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Ledger panel root (totals + toolbar + scrollable list)
+ */
+export const ledgerPanel = cva({
+  base: {
+    display: "flex",
+    flexDirection: "column",
+    height: "100%",
+    gap: "0.5rem",
+  },
+});
+
+/**
+ * Per-currency totals row
+ */
+export const ledgerTotals = cva({
+  base: {
+    display: "flex",
+    flexWrap: "wrap",
+    gap: "0.25rem",
+    flexShrink: 0,
+  },
+});
+
+/**
+ * A single currency total
+ */
+export const ledgerTotal = cva({
+  base: {
+    padding: "0.125rem 0.5rem",
+    borderRadius: "button",
+    backgroundColor: "message.superchat",
+    color: "black",
+    fontSize: "0.75rem",
+    fontWeight: "600",
+    fontVariantNumeric: "tabular-nums",
+  },
+});
+
+/**
+ * Sort buttons and export action
+ */
+export const ledgerToolbar = cva({
+  base: {
+    display: "flex",
+    alignItems: "center",
+    gap: "0.25rem",
+    flexShrink: 0,
+    color: "text.secondary",
+    fontSize: "0.75rem",
+  },
+});
+
+/**
+ * Scrollable list of ledger rows
+ */
+export const ledgerList = cva({
+  base: {
+    flex: "1",
+    minHeight: 0,
+    overflowY: "auto",
+  },
+});
+
+/**
+ * A single Super Chat in the ledger
+ */
+export const ledgerRow = cva({
+  base: {
+    padding: "0.375rem 0.5rem",
+    borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+    fontSize: "0.8125rem",
+  },
+});
+
+/**
+ * Time, author and amount line of a ledger row
+ */
+export const ledgerRowHeader = cva({
+  base: {
+    display: "flex",
+    alignItems: "baseline",
+    gap: "0.5rem",
+  },
+});
+
+/**
+ * Time of a ledger row (clicking it seeks to the Super Chat)
+ */
+export const ledgerTime = cva({
+  base: {
+    flexShrink: 0,
+    padding: 0,
+    border: "none",
+    background: "none",
+    color: "status.loading",
+    fontSize: "inherit",
+    fontVariantNumeric: "tabular-nums",
+    cursor: "pointer",
+    _enabled: {
+      _hover: {
+        textDecoration: "underline",
+      },
+    },
+    // Live streams that can't be seeked
+    _disabled: {
+      cursor: "default",
+    },
+  },
+});
+
+/**
+ * Amount text of a ledger row
+ */
+export const ledgerAmount = cva({
+  base: {
+    marginLeft: "auto",
+    color: "message.superchat",
+    fontWeight: "600",
+    fontVariantNumeric: "tabular-nums",
+    whiteSpace: "nowrap",
+  },
+});
+
+/**
+ * Message text of a ledger row
+ */
+export const ledgerMessage = cva({
+  base: {
+    marginTop: "0.125rem",
+    color: "text.muted",
+    wordBreak: "break-word",
+  },
+});
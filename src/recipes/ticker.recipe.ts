@@ -0,0 +1,66 @@
+import { cva } from "../../styled-system/css";
+
+/**
+ * Horizontal row of ticker chips (scrolls sideways when full)
+ */
+export const tickerRow = cva({
+  base: {
+    display: "flex",
+    gap: "0.375rem",
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+    overflowX: "auto",
+    scrollbarWidth: "none",
+  },
+});
+
+/**
+ * Ticker chip (colors and remaining-time fill are set via style prop)
+ */
+export const tickerChip = cva({
+  base: {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "0.375rem",
+    flexShrink: 0,
+    padding: "0.1875rem 0.625rem 0.1875rem 0.1875rem",
+    border: "none",
+    borderRadius: "999px",
+    fontSize: "0.75rem",
+    fontWeight: "600",
+    whiteSpace: "nowrap",
+    cursor: "pointer",
+  },
+  variants: {
+    expanded: {
+      true: {
+        outline: "2px solid white",
+        outlineOffset: "-2px",
+      },
+    },
+  },
+});
+
+/**
+ * Author photo inside a ticker chip
+ */
+export const tickerAvatar = cva({
+  base: {
+    width: "20px",
+    height: "20px",
+    borderRadius: "avatar",
+    objectFit: "cover",
+  },
+});
+
+/**
+ * Full message shown below the ticker when a chip is clicked
+ */
+export const tickerExpanded = cva({
+  base: {
+    marginBottom: "0.5rem",
+    flexShrink: 0,
+    maxHeight: "40%",
+    overflowY: "auto",
+  },
+});
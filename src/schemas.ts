@@ -79,7 +79,7 @@ export type SuperChatColors = z.infer<typeof SuperChatColorsSchema>;
 export const ChatMessageSchema = z.object({
   id: z.string(),
   type: MessageTypeSchema,
-  timestamp: z.number(), // Video offset in seconds
+  timestamp: z.number(), // Video offset in seconds (live: seconds since the broadcast started)
 
   // Author info
   author: z.string(),
@@ -105,6 +105,9 @@ export const ChatMessageSchema = z.object({
 
   // Gift membership specific
   giftCount: z.number().optional(),
+
+  // Moderation (live chat)
+  deleted: z.boolean().optional(), // Deleted by a moderator, or the author was banned
 });
 
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
@@ -132,6 +135,14 @@ export const ChatDataChunkMessageSchema = z.object({
  */
 export const ChatDataCompleteMessageSchema = z.object({
   totalMessages: z.number(),
+  isLive: z.boolean().optional(), // Live chat received so far (more arrives via live-chat-messages)
+});
+
+/**
+ * Schema for chat-data-partial message from plugin (archived segments delivered while fetching)
+ */
+export const ChatDataPartialMessageSchema = z.object({
+  messages: z.array(ChatMessageSchema),
 });
 
 /**
@@ -149,6 +160,15 @@ export const ChatInfoMessageSchema = z.object({
   message: z.string(),
 });
 
+/**
+ * Schema for chat-warning message from plugin (non-fatal problems shown above chat; null clears it)
+ */
+export const ChatWarningMessageSchema = z
+  .object({
+    message: z.string(),
+  })
+  .nullable();
+
 /**
  * Schema for live-chat-messages message from plugin (live stream incremental updates)
  */
@@ -156,6 +176,38 @@ export const LiveChatMessagesSchema = z.object({
   messages: z.array(ChatMessageSchema),
 });
 
+/**
+ * Schema for chat-messages-update message from plugin (moderator deletions and replacements, matched by ID)
+ */
+export const ChatMessagesUpdateSchema = z.object({
+  messages: z.array(ChatMessageSchema),
+});
+
+/**
+ * Schema for live-status message from plugin (null when not watching a live stream)
+ */
+export const LiveStatusMessageSchema = z
+  .object({
+    state: z.enum(["connected", "reconnecting", "ended"]),
+    attempt: z.number(), // Failed attempts in a row while reconnecting
+    seekable: z.boolean(), // Messages can be seeked to (the stream has DVR and a known start time)
+  })
+  .nullable();
+
+export type LiveStatus = NonNullable<z.infer<typeof LiveStatusMessageSchema>>;
+
+/**
+ * Schema for auth-status message from plugin (null when no YouTube cookies file is set)
+ */
+export const AuthStatusMessageSchema = z
+  .object({
+    signedIn: z.boolean(),
+    message: z.string().optional(), // Why requests are not signed in
+  })
+  .nullable();
+
+export type AuthStatus = NonNullable<z.infer<typeof AuthStatusMessageSchema>>;
+
 /**
  * Schema for position-update message from plugin
  */
@@ -170,6 +222,13 @@ export const ScrollDirectionSchema = z.enum(["bottom-to-top", "top-to-bottom"]);
 
 export type ScrollDirection = z.infer<typeof ScrollDirectionSchema>;
 
+/**
+ * How messages deleted by moderators are shown
+ */
+export const DeletedMessagesModeSchema = z.enum(["strike", "remove"]);
+
+export type DeletedMessagesMode = z.infer<typeof DeletedMessagesModeSchema>;
+
 /**
  * Schema for preferences-update message from plugin
  */
@@ -180,8 +239,156 @@ export const PreferencesUpdateMessageSchema = z.object({
   showAuthorName: z.boolean(),
   showAuthorPhoto: z.boolean(),
   fontScale: z.number(),
+  deletedMessages: DeletedMessagesModeSchema,
+});
+
+/**
+ * Schema for a bucket of the chat activity timeline
+ */
+export const ActivityBucketSchema = z.object({
+  start: z.number(), // Video offset in seconds
+  messageCount: z.number(),
+  superChatCount: z.number(),
+  superChatTotals: z.array(z.object({ currency: z.string(), total: z.number() })), // Per currency, largest first
+  emojiCount: z.number(),
+  isEmojiBurst: z.boolean(),
+});
+
+export type ActivityBucket = z.infer<typeof ActivityBucketSchema>;
+
+/**
+ * Schema for chat-activity message from plugin (null clears the timeline)
+ */
+export const ChatActivityMessageSchema = z
+  .object({
+    duration: z.number(),
+    bucketSeconds: z.number(),
+    maxMessageCount: z.number(),
+    buckets: z.array(ActivityBucketSchema),
+  })
+  .nullable();
+
+export type ChatActivity = NonNullable<z.infer<typeof ChatActivityMessageSchema>>;
+
+/**
+ * Schema for a Super Chat ledger entry (amount parsed by the plugin)
+ */
+export const LedgerEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(["superchat", "supersticker"]),
+  timestamp: z.number(),
+  timestampText: z.string().optional(),
+  author: z.string(),
+  authorChannelId: z.string().optional(),
+  message: z.string(),
+  amount: z.string(), // Original text, e.g. "¥1,000"
+  currency: z.string().nullable(), // null if the amount could not be parsed
+  value: z.number().nullable(),
+});
+
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+
+/**
+ * Schema for superchat-ledger message from plugin (null clears the ledger)
+ */
+export const SuperChatLedgerMessageSchema = z
+  .object({
+    entries: z.array(LedgerEntrySchema),
+    totals: z.array(
+      z.object({
+        currency: z.string(),
+        total: z.number(),
+        count: z.number(),
+      }),
+    ),
+  })
+  .nullable();
+
+export type SuperChatLedger = NonNullable<z.infer<typeof SuperChatLedgerMessageSchema>>;
+
+/**
+ * Schema for a poll choice
+ */
+export const PollChoiceSchema = z.object({
+  text: z.string(),
+  percentage: z.number().optional(),
+});
+
+export type PollChoice = z.infer<typeof PollChoiceSchema>;
+
+/**
+ * Schema for a pinned message or poll shown above chat
+ */
+export const ChatBannerSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["pinned", "poll"]),
+  timestamp: z.number(), // Video offset in seconds when shown (0 for live)
+  endTimestamp: z.number().optional(), // Video offset when removed (archived only)
+  header: z.string().optional(),
+  message: ChatMessageSchema.optional(), // Pinned chat message
+  text: z.string().optional(), // Pinned text without a message (e.g. a redirect notice)
+  pollId: z.string().optional(),
+  question: z.string().optional(),
+  choices: z.array(PollChoiceSchema).optional(),
+});
+
+export type ChatBanner = z.infer<typeof ChatBannerSchema>;
+
+/**
+ * Schema for chat-banners message from plugin (replaces all banners)
+ */
+export const ChatBannersMessageSchema = z.object({
+  banners: z.array(ChatBannerSchema),
+});
+
+/**
+ * Schema for a range of the video whose chat could not be fetched
+ */
+export const ChatGapSchema = z.object({
+  start: z.number(), // Video offset in seconds
+  end: z.number(),
+});
+
+export type ChatGap = z.infer<typeof ChatGapSchema>;
+
+/**
+ * Schema for chat-gaps message from plugin (archived chat that is still incomplete after repair)
+ */
+export const ChatGapsMessageSchema = z.object({
+  gaps: z.array(ChatGapSchema),
+});
+
+/**
+ * Schema for a muted author
+ */
+export const MutedAuthorSchema = z.object({
+  channelId: z.string(),
+  name: z.string(),
 });
 
+export type MutedAuthor = z.infer<typeof MutedAuthorSchema>;
+
+/**
+ * Schema for filters-update message from plugin
+ */
+export const FiltersUpdateMessageSchema = z.object({
+  keywords: z.array(z.string()), // Case-insensitive substrings
+  regexes: z.array(z.string()), // Regular expression sources (case-insensitive)
+  mutedAuthors: z.array(MutedAuthorSchema),
+});
+
+export type ChatFilters = z.infer<typeof FiltersUpdateMessageSchema>;
+
+/**
+ * Schema for display-filters-update message from plugin (saved per window)
+ */
+export const DisplayFiltersUpdateMessageSchema = z.object({
+  hiddenTypes: z.array(MessageTypeSchema), // Message types that are not shown
+  badges: z.array(BadgeTypeSchema), // If non-empty, only authors with one of these badges are shown
+});
+
+export type DisplayFilters = z.infer<typeof DisplayFiltersUpdateMessageSchema>;
+
 /**
  * User preferences type
  */
@@ -192,4 +399,5 @@ export interface UserPreferences {
   showAuthorName: boolean;
   showAuthorPhoto: boolean;
   fontScale: number;
+  deletedMessages: DeletedMessagesMode;
 }
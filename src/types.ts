@@ -1,24 +1,50 @@
 import type {
+  ActivityBucket,
   AuthorBadge,
+  AuthStatus,
   BadgeType,
+  ChatActivity,
+  ChatBanner,
+  ChatFilters,
+  ChatGap,
   ChatMessage,
+  DeletedMessagesMode,
+  DisplayFilters,
+  LedgerEntry,
+  LiveStatus,
   MessageEmoji,
   MessageRun,
   MessageType,
+  MutedAuthor,
+  PollChoice,
   ScrollDirection,
   SuperChatColors,
+  SuperChatLedger,
   UserPreferences,
 } from "./schemas";
 
 export type {
+  ActivityBucket,
   AuthorBadge,
+  AuthStatus,
   BadgeType,
+  ChatActivity,
+  ChatBanner,
+  ChatFilters,
+  ChatGap,
   ChatMessage,
+  DeletedMessagesMode,
+  DisplayFilters,
+  LedgerEntry,
+  LiveStatus,
   MessageEmoji,
   MessageRun,
   MessageType,
+  MutedAuthor,
+  PollChoice,
   ScrollDirection,
   SuperChatColors,
+  SuperChatLedger,
   UserPreferences,
 };
 
@@ -33,10 +59,20 @@ export interface AppState {
   loading: boolean;
   error: string | null;
   info: string | null;
+  warning: string | null;
   progress: ChatProgress | null;
   messages: ChatMessage[];
+  isLive: boolean;
+  liveStatus: LiveStatus | null;
+  authStatus: AuthStatus | null;
   currentPosition: number | null;
   preferences: UserPreferences;
+  filters: ChatFilters;
+  displayFilters: DisplayFilters;
+  activity: ChatActivity | null;
+  ledger: SuperChatLedger | null;
+  banners: ChatBanner[];
+  gaps: ChatGap[];
 }
 
 export type StatusMessageType = "loading" | "error" | "info";
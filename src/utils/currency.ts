@@ -0,0 +1,7 @@
+/**
+ * Format a currency total, keeping the currency as YouTube shows it ("$12.50", "PHP 300")
+ */
+export const formatTotal = (currency: string, total: number): string => {
+  const value = total.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return /^[A-Z]+$/.test(currency) ? `${currency} ${value}` : `${currency}${value}`;
+};
@@ -0,0 +1,10 @@
+/**
+ * Format a video offset in seconds as H:MM:SS or M:SS
+ */
+export const formatOffset = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = (totalSeconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+};